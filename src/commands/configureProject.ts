@@ -1,136 +1,122 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { ConfigurationProvider } from '../providers/configurationProvider';
-
-const FRONTEND_FRAMEWORKS = [
-    { label: 'React (Vite)', value: 'react-vite', description: 'npm run dev' },
-    { label: 'React (Create React App)', value: 'react-cra', description: 'npm start' },
-    { label: 'Vue', value: 'vue', description: 'npm run dev' },
-    { label: 'Angular', value: 'angular', description: 'ng serve' },
-    { label: 'Next.js', value: 'nextjs', description: 'npm run dev' },
-    { label: 'Nuxt', value: 'nuxt', description: 'npm run dev' },
-    { label: 'Svelte', value: 'svelte', description: 'npm run dev' },
-    { label: 'Custom Command', value: 'custom', description: 'Specify your own command' }
-];
-
-const BACKEND_FRAMEWORKS = [
-    { label: 'Express', value: 'express', description: 'npm run dev or npm start' },
-    { label: 'NestJS', value: 'nestjs', description: 'npm run start:dev' },
-    { label: 'Django', value: 'django', description: 'python manage.py runserver' },
-    { label: 'Flask', value: 'flask', description: 'flask run' },
-    { label: 'FastAPI', value: 'fastapi', description: 'uvicorn main:app --reload' },
-    { label: 'Spring Boot', value: 'spring-boot', description: './mvnw spring-boot:run' },
-    { label: 'Custom Command', value: 'custom', description: 'Specify your own command' }
-];
+import { ConfigurationProvider, ServiceEntry, ServiceType } from '../providers/configurationProvider';
+import { FRONTEND_FRAMEWORKS, BACKEND_FRAMEWORKS } from '../utils/frameworkCommands';
+import { Detector } from '../utils/detector';
 
 export async function configureProject(configProvider: ConfigurationProvider): Promise<void> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
+    const workspaceRoot = configProvider.getRoot();
 
-    if (!workspaceFolders || workspaceFolders.length === 0) {
+    if (!workspaceRoot) {
         vscode.window.showErrorMessage('Please open a workspace folder first.');
         return;
     }
 
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
+    const services: ServiceEntry[] = [];
 
-    // Step 1: Select Frontend Folder
-    vscode.window.showInformationMessage('Step 1/4: Select your Frontend folder');
-
-    const frontendUri = await vscode.window.showOpenDialog({
-        canSelectFiles: false,
-        canSelectFolders: true,
-        canSelectMany: false,
-        defaultUri: vscode.Uri.file(workspaceRoot),
-        openLabel: 'Select Frontend Folder',
-        title: 'Select Frontend Folder'
-    });
+    while (true) {
+        const service = await configureService(configProvider, workspaceRoot, services);
+        if (!service) {
+            if (services.length === 0) return;
+            break;
+        }
+        services.push(service);
 
-    if (!frontendUri || frontendUri.length === 0) {
-        vscode.window.showWarningMessage('Configuration cancelled: No frontend folder selected.');
-        return;
+        const next = await vscode.window.showQuickPick(['Add another service', 'Done'], {
+            placeHolder: `${services.length} service(s) configured`,
+            title: 'Project Services'
+        });
+        if (next !== 'Add another service') break;
     }
 
-    const frontendPath = path.relative(workspaceRoot, frontendUri[0].fsPath) || '.';
-    await configProvider.setFrontendPath(frontendPath);
+    await configProvider.setServices(services);
 
-    // Step 2: Select Frontend Framework
-    vscode.window.showInformationMessage('Step 2/4: Select your Frontend framework');
-
-    const frontendFramework = await vscode.window.showQuickPick(FRONTEND_FRAMEWORKS, {
-        placeHolder: 'Select the frontend framework',
-        title: 'Frontend Framework'
-    });
+    // Show success message
+    vscode.window.showInformationMessage(
+        `✅ Configuration saved!\n` +
+        services.map(s => `${s.name}: ${s.path} (${s.framework})`).join('\n')
+    );
+}
 
-    if (!frontendFramework) {
-        vscode.window.showWarningMessage('Configuration cancelled: No frontend framework selected.');
-        return;
-    }
+/**
+ * Walks the user through folder, framework and name for one service. The folder can be in any workspace root.
+ */
+async function configureService(configProvider: ConfigurationProvider, workspaceRoot: string, existing: ServiceEntry[]): Promise<ServiceEntry | undefined> {
+    const step = existing.length + 1;
 
-    await configProvider.setFrontendFramework(frontendFramework.value);
+    // Step 1: Select Folder
+    vscode.window.showInformationMessage(`Service ${step}: Select the service folder`);
 
-    // If custom, ask for command
-    if (frontendFramework.value === 'custom') {
-        const customCmd = await vscode.window.showInputBox({
-            prompt: 'Enter the custom start command for frontend',
-            placeHolder: 'e.g., npm run dev',
-            title: 'Custom Frontend Command'
-        });
-        if (customCmd) {
-            await configProvider.setFrontendCustomCommand(customCmd);
-        }
-    }
-
-    // Step 3: Select Backend Folder
-    vscode.window.showInformationMessage('Step 3/4: Select your Backend folder');
-
-    const backendUri = await vscode.window.showOpenDialog({
+    const folderUri = await vscode.window.showOpenDialog({
         canSelectFiles: false,
         canSelectFolders: true,
         canSelectMany: false,
         defaultUri: vscode.Uri.file(workspaceRoot),
-        openLabel: 'Select Backend Folder',
-        title: 'Select Backend Folder'
+        openLabel: 'Select Service Folder',
+        title: `Select Folder for Service ${step}`
     });
 
-    if (!backendUri || backendUri.length === 0) {
-        vscode.window.showWarningMessage('Configuration cancelled: No backend folder selected.');
-        return;
+    if (!folderUri || folderUri.length === 0) {
+        vscode.window.showWarningMessage('Configuration cancelled: No folder selected.');
+        return undefined;
     }
 
-    const backendPath = path.relative(workspaceRoot, backendUri[0].fsPath) || '.';
-    await configProvider.setBackendPath(backendPath);
-
-    // Step 4: Select Backend Framework
-    vscode.window.showInformationMessage('Step 4/4: Select your Backend framework');
-
-    const backendFramework = await vscode.window.showQuickPick(BACKEND_FRAMEWORKS, {
-        placeHolder: 'Select the backend framework',
-        title: 'Backend Framework'
-    });
-
-    if (!backendFramework) {
-        vscode.window.showWarningMessage('Configuration cancelled: No backend framework selected.');
-        return;
+    const servicePath = configProvider.getServicePath(folderUri[0].fsPath);
+
+    // Step 2: Select Framework, hinting at whatever the folder looks like
+    const detected = await Detector.detectFrontend(folderUri[0].fsPath) || await Detector.detectBackend(folderUri[0].fsPath);
+    const items = [
+        { label: 'Frontend', kind: vscode.QuickPickItemKind.Separator },
+        ...FRONTEND_FRAMEWORKS.map(f => ({ ...f, type: 'frontend' as ServiceType })),
+        { label: 'Backend', kind: vscode.QuickPickItemKind.Separator },
+        ...BACKEND_FRAMEWORKS.map(f => ({ ...f, type: 'backend' as ServiceType }))
+    ];
+
+    const framework = await vscode.window.showQuickPick(items, {
+        placeHolder: detected ? `Detected: ${detected}` : 'Select the framework',
+        title: 'Service Framework'
+    }) as { label: string; value: string; type: ServiceType } | undefined;
+
+    if (!framework) {
+        vscode.window.showWarningMessage('Configuration cancelled: No framework selected.');
+        return undefined;
     }
 
-    await configProvider.setBackendFramework(backendFramework.value);
-
     // If custom, ask for command
-    if (backendFramework.value === 'custom') {
-        const customCmd = await vscode.window.showInputBox({
-            prompt: 'Enter the custom start command for backend',
+    let command = '';
+    if (framework.value === 'custom') {
+        command = await vscode.window.showInputBox({
+            prompt: 'Enter the custom start command',
             placeHolder: 'e.g., npm run dev',
-            title: 'Custom Backend Command'
-        });
-        if (customCmd) {
-            await configProvider.setBackendCustomCommand(customCmd);
+            title: 'Custom Command'
+        }) || '';
+    }
+
+    // Step 3: Name the service
+    const defaultName = folderUri[0].fsPath === workspaceRoot
+        ? (framework.type === 'frontend' ? 'Frontend' : 'Backend')
+        : path.basename(folderUri[0].fsPath);
+    const name = await vscode.window.showInputBox({
+        prompt: 'Enter a name for this service',
+        value: defaultName,
+        title: 'Service Name',
+        validateInput: value => {
+            if (!value.trim()) return 'Name is required';
+            if (existing.some(s => s.name === value.trim())) return 'A service with this name already exists';
+            return undefined;
         }
+    });
+
+    if (!name) {
+        vscode.window.showWarningMessage('Configuration cancelled: No service name given.');
+        return undefined;
     }
 
-    // Show success message
-    vscode.window.showInformationMessage(
-        `✅ Configuration saved!\n` +
-        `Frontend: ${frontendPath} (${frontendFramework.label})\n` +
-        `Backend: ${backendPath} (${backendFramework.label})`
-    );
+    return {
+        name: name.trim(),
+        type: framework.type,
+        path: servicePath,
+        framework: framework.value,
+        ...(command ? { command } : {})
+    };
 }
@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigurationProvider } from '../providers/configurationProvider';
+import { LogProvider } from '../providers/logProvider';
+
+/**
+ * Writes the current project settings to .projectstarter.json or .yaml so they can be committed.
+ */
+export async function exportConfig(configProvider: ConfigurationProvider): Promise<void> {
+    if (!configProvider.getRoot()) {
+        vscode.window.showErrorMessage('Please open a workspace folder first.');
+        return;
+    }
+
+    const existing = configProvider.getRepoConfigFile();
+    let format: 'json' | 'yaml';
+    if (existing) {
+        const overwrite = await vscode.window.showWarningMessage(
+            `${path.basename(existing)} already exists. Overwrite it with the current settings?`,
+            { modal: true },
+            'Overwrite'
+        );
+        if (overwrite !== 'Overwrite') return;
+        format = existing.endsWith('.json') ? 'json' : 'yaml';
+    } else {
+        const picked = await vscode.window.showQuickPick([
+            { label: '.projectstarter.json', format: 'json' as const },
+            { label: '.projectstarter.yaml', format: 'yaml' as const }
+        ], { placeHolder: 'File to export the project configuration to' });
+        if (!picked) return;
+        format = picked.format;
+    }
+
+    let file: string;
+    try {
+        file = await configProvider.exportToRepoFile(format);
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Failed to export configuration: ${error.message}`);
+        return;
+    }
+    LogProvider.getInstance().info('SYSTEM', `Exported project configuration to ${file}`);
+    await vscode.window.showTextDocument(vscode.Uri.file(file));
+
+    // Workspace settings win over the repo file, so leaving them would hide later edits to it
+    const selection = await vscode.window.showInformationMessage(
+        `Exported to ${path.basename(file)}. Remove the same settings from the workspace settings so the file takes effect?`,
+        'Remove from Settings',
+        'Keep'
+    );
+    if (selection === 'Remove from Settings') {
+        await configProvider.removeWorkspaceSettings();
+    }
+}
@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { ConfigurationProvider } from '../providers/configurationProvider';
+import { LogProvider } from '../providers/logProvider';
+import { ConfigImporter } from '../utils/configImporter';
+
+/**
+ * Proposes services from the project's Procfile, package.json scripts, compose file and launch.json,
+ * and adds the ones picked. A picked service with the name of a configured one replaces its settings.
+ */
+export async function importConfig(configProvider: ConfigurationProvider): Promise<void> {
+    const root = configProvider.getRoot();
+    if (!root) {
+        vscode.window.showErrorMessage('Please open a workspace folder first.');
+        return;
+    }
+
+    const found = await ConfigImporter.importAll(root);
+    if (found.length === 0) {
+        vscode.window.showInformationMessage('Nothing to import: no Procfile, concurrently or npm-run-all script in package.json, compose file or Node/Python launch configuration found.');
+        return;
+    }
+
+    const existing = configProvider.getConfig().services.map(s => s.name);
+    const picked = await vscode.window.showQuickPick(found.map(({ source, service }) => ({
+        label: service.name!,
+        description: existing.includes(service.name!) ? `${source} · replaces the configured service` : source,
+        detail: [
+            service.path,
+            service.command,
+            service.framework !== 'custom' ? service.framework : undefined,
+            service.port ? `port ${service.port}` : undefined,
+            service.env ? `env ${Object.keys(service.env).join(', ')}` : undefined,
+            service.envFile ? `env file ${service.envFile}` : undefined
+        ].filter(part => part).join(' · '),
+        picked: !existing.includes(service.name!),
+        service
+    })), {
+        canPickMany: true,
+        title: 'Import Services',
+        placeHolder: 'Select the services to add to the project'
+    });
+    if (!picked || picked.length === 0) return;
+
+    const imported: string[] = [];
+    for (const { service } of picked) {
+        try {
+            if (existing.includes(service.name!)) {
+                await configProvider.updateService(service.name!, service);
+            } else {
+                await configProvider.addService(service);
+            }
+            imported.push(service.name!);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Could not import ${service.name}: ${error.message}`);
+        }
+    }
+
+    if (imported.length > 0) {
+        LogProvider.getInstance().info('SYSTEM', `Imported services: ${imported.join(', ')}`);
+        vscode.window.showInformationMessage(`Imported ${imported.join(', ')}.`);
+    }
+}
@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigurationProvider } from '../providers/configurationProvider';
+import { TerminalProvider } from '../providers/terminalProvider';
+import { LogProvider } from '../providers/logProvider';
+import { MockServer } from '../utils/mockServer';
+import { DoctorFinding, ProjectDoctor } from '../utils/projectDoctor';
+
+const SEVERITY_ICONS = { error: '❌', warning: '⚠️', ok: '✅' };
+
+/**
+ * Checks the project, opens a report of the results and publishes the problems as diagnostics
+ * on the configuration and project files they come from.
+ */
+export async function runDoctor(
+    configProvider: ConfigurationProvider,
+    terminalProvider: TerminalProvider,
+    diagnostics: vscode.DiagnosticCollection
+): Promise<void> {
+    const root = configProvider.getRoot();
+    if (!root) {
+        vscode.window.showErrorMessage('Please open a workspace folder first.');
+        return;
+    }
+    const config = configProvider.getConfig();
+    if (config.services.length === 0) {
+        vscode.window.showInformationMessage('No services configured yet. Run "Project Starter: Configure Project" first.');
+        return;
+    }
+
+    const findings = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Checking the project...'
+    }, () => ProjectDoctor.diagnose(config, name => terminalProvider.isRunning(name) || MockServer.getInstance().isRunning(name)));
+
+    const logger = LogProvider.getInstance();
+    for (const finding of findings.filter(f => f.severity !== 'ok')) {
+        const source = finding.service || 'SYSTEM';
+        if (finding.severity === 'error') {
+            logger.error(source, finding.message, { service: finding.service, fix: finding.fix });
+        } else {
+            logger.warn(source, finding.message, { service: finding.service, fix: finding.fix });
+        }
+    }
+
+    publishDiagnostics(findings, configProvider, diagnostics);
+
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: buildReport(findings, config.services.map(s => s.name), root, config.activeProfile) });
+    await vscode.window.showTextDocument(document, { preview: false });
+
+    const errors = findings.filter(f => f.severity === 'error').length;
+    const warnings = findings.filter(f => f.severity === 'warning').length;
+    if (errors === 0 && warnings === 0) {
+        vscode.window.showInformationMessage('Project Doctor found no problems.');
+    } else {
+        vscode.window.showWarningMessage(`Project Doctor found ${errors} error(s) and ${warnings} warning(s). See the report and the Problems panel.`);
+    }
+}
+
+function buildReport(findings: DoctorFinding[], services: string[], root: string, profile: string): string {
+    const count = (severity: DoctorFinding['severity']) => findings.filter(f => f.severity === severity).length;
+    const lines = [
+        '# Project Doctor',
+        '',
+        `${root} · profile ${profile} · ${new Date().toLocaleString()}`,
+        '',
+        `**${count('error')} error(s), ${count('warning')} warning(s)**`,
+        ''
+    ];
+
+    const section = (title: string, items: DoctorFinding[]) => {
+        if (items.length === 0) return;
+        lines.push(`## ${title}`, '');
+        for (const finding of items) {
+            lines.push(`- ${SEVERITY_ICONS[finding.severity]} ${finding.message}`);
+            if (finding.fix) {
+                lines.push(`  - **Fix:** ${finding.fix}`);
+            }
+        }
+        lines.push('');
+    };
+
+    section('Project', findings.filter(f => !f.service));
+    for (const name of services) {
+        section(name, findings.filter(f => f.service === name));
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Puts each problem on the line it is about: in its own file for version requirements, otherwise
+ * in the file the services are configured in. Problems without a file stay in the report only.
+ */
+function publishDiagnostics(findings: DoctorFinding[], configProvider: ConfigurationProvider, diagnostics: vscode.DiagnosticCollection) {
+    diagnostics.clear();
+
+    const root = configProvider.getRoot()!;
+    const configFiles = [
+        configProvider.getRepoConfigFile(),
+        path.join(root, '.vscode', 'settings.json'),
+        vscode.workspace.workspaceFile?.scheme === 'file' ? vscode.workspace.workspaceFile.fsPath : undefined
+    ].filter((file): file is string => !!file && fs.existsSync(file));
+
+    const contents = new Map<string, string[]>();
+    const readLines = (file: string) => {
+        if (!contents.has(file)) {
+            contents.set(file, fs.readFileSync(file, 'utf8').split(/\r?\n/));
+        }
+        return contents.get(file)!;
+    };
+    // The first line mentioning the text from the service's entry on; a file without the entry doesn't match
+    const locate = (file: string, find: string | undefined, service: string | undefined) => {
+        if (!find) return undefined;
+        const lines = readLines(file);
+        const start = service ? lines.findIndex(line => isNameLine(line, service)) : 0;
+        if (start === -1) return undefined;
+        if (find === service) return start;
+        const index = lines.findIndex((line, i) => i >= start && line.includes(find));
+        if (index !== -1) return index;
+        return service ? start : undefined;
+    };
+
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    for (const finding of findings.filter(f => f.severity !== 'ok')) {
+        let file: string | undefined;
+        let line: number | undefined;
+        if (finding.file) {
+            file = finding.file;
+            line = locate(file, finding.find, undefined) ?? 0;
+        } else {
+            for (const candidate of configFiles) {
+                line = locate(candidate, finding.find ?? finding.service, finding.service);
+                if (line !== undefined) {
+                    file = candidate;
+                    break;
+                }
+            }
+        }
+        if (!file || line === undefined) continue;
+
+        const text = readLines(file)[line] ?? '';
+        const range = new vscode.Range(line, text.length - text.trimStart().length, line, text.length);
+        const diagnostic = new vscode.Diagnostic(
+            range,
+            `${finding.service ? `${finding.service}: ` : ''}${finding.message}${finding.fix ? ` ${finding.fix}` : ''}`,
+            finding.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'Project Starter';
+        byFile.set(file, [...(byFile.get(file) || []), diagnostic]);
+    }
+
+    for (const [file, fileDiagnostics] of byFile) {
+        diagnostics.set(vscode.Uri.file(file), fileDiagnostics);
+    }
+}
+
+/**
+ * Whether a line holds the "name" key of the service's entry, in JSON or YAML.
+ */
+function isNameLine(line: string, service: string): boolean {
+    for (const match of line.matchAll(/(?:^|[{,]|-\s)\s*["']?name["']?\s*:\s*(?:"((?:\\.|[^"\\])*)"|'([^']*)'|([^"'\s,#}][^,#}]*?))\s*(?=[,}#]|$)/g)) {
+        const value = match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2] ?? match[3];
+        if (value === service) return true;
+    }
+    return false;
+}
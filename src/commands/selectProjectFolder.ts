@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import { ConfigurationProvider } from '../providers/configurationProvider';
+import { TerminalProvider } from '../providers/terminalProvider';
+import { LogProvider } from '../providers/logProvider';
+import { MockServer } from '../utils/mockServer';
+
+/**
+ * Asks which workspace folder's project to use and switches to it. Services of the current project
+ * have to be stopped first. Resolves the selected folder, or undefined when nothing was selected.
+ */
+export async function selectProjectFolder(
+    configProvider: ConfigurationProvider,
+    terminalProvider: TerminalProvider
+): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length === 0) {
+        vscode.window.showErrorMessage('Please open a workspace folder first.');
+        return undefined;
+    }
+
+    const current = configProvider.getFolder();
+    const picked = folders.length === 1 ? folders[0] : (await vscode.window.showQuickPick(folders.map(folder => ({
+        label: folder.name === current?.name ? `$(check) ${folder.name}` : folder.name,
+        description: ConfigurationProvider.hasProject(folder) ? undefined : 'no project configured',
+        detail: folder.uri.fsPath,
+        folder
+    })), { placeHolder: 'Workspace folder whose project to use' }))?.folder;
+    if (!picked || picked.uri.toString() === current?.uri.toString()) {
+        return picked;
+    }
+
+    // Running services belong to the current project and could no longer be stopped by name
+    if (terminalProvider.hasRunningTerminals() || MockServer.getInstance().getRunning().length > 0) {
+        const selection = await vscode.window.showWarningMessage(
+            `Stop the servers of ${current?.name} before switching to ${picked.name}.`,
+            'Stop Servers'
+        );
+        if (selection === 'Stop Servers') {
+            vscode.commands.executeCommand('projectStarter.stop');
+        }
+        return undefined;
+    }
+
+    configProvider.setFolder(picked);
+    LogProvider.getInstance().info('SYSTEM', `Using the project in ${picked.uri.fsPath}`);
+    return picked;
+}
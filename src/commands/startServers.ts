@@ -1,12 +1,25 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
-import { ConfigurationProvider } from '../providers/configurationProvider';
+import { ConfigurationProvider, ProjectConfig, ServiceConfig } from '../providers/configurationProvider';
 import { TerminalProvider } from '../providers/terminalProvider';
-import { getStartCommand } from '../utils/frameworkCommands';
-import { PortUtils } from '../utils/portUtils';
+import { getServiceCommand, applyPort } from '../utils/frameworkCommands';
+import { PortUtils, PortReassignment } from '../utils/portUtils';
 import { DependencyUtils } from '../utils/dependencyUtils';
 import { LogProvider } from '../providers/logProvider';
 import { DockerUtils } from '../utils/dockerUtils';
+import { ServiceGraph } from '../utils/serviceGraph';
+import { ReadinessChecker } from '../utils/readinessChecker';
+import { FileWatcher } from '../utils/fileWatcher';
+import { EnvManager } from '../utils/envManager';
+import { ProcessUtils, ProcessInfo } from '../utils/processUtils';
+import { DevProxy } from '../utils/devProxy';
+import { MockServer } from '../utils/mockServer';
+import { HealthChecker } from '../utils/healthChecker';
+import { getStopOptions } from './stopServers';
+
+// .env files read for URLs that point at a reassigned port, lowest precedence first
+const ENV_FILES = ['.env', '.env.development', '.env.local', '.env.development.local'];
 
 export async function startServers(
     configProvider: ConfigurationProvider,
@@ -14,100 +27,70 @@ export async function startServers(
 ): Promise<void> {
     const config = configProvider.getConfig();
     const logger = LogProvider.getInstance();
-    logger.clear();
     logger.show();
-    logger.log('SYSTEM', 'Starting project servers...');
+    logger.info('SYSTEM', 'Starting project servers...', { profile: config.activeProfile });
+    const { error: profileError } = ConfigurationProvider.getProfileChain(config.profiles, config.activeProfile);
+    if (profileError) {
+        logger.warn('SYSTEM', profileError, { profile: config.activeProfile });
+    }
 
     // Validate configuration
-    if (!config.frontend.path || !config.backend.path) {
+    if (!configProvider.isConfigured()) {
         const action = await vscode.window.showWarningMessage(
             'Project not configured. Would you like to configure it now?',
             'Configure',
+            'Import',
             'Cancel'
         );
 
         if (action === 'Configure') {
             vscode.commands.executeCommand('projectStarter.configure');
+        } else if (action === 'Import') {
+            vscode.commands.executeCommand('projectStarter.importConfig');
         }
         return;
     }
 
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
+    const workspaceRoot = configProvider.getRoot();
+    if (!workspaceRoot) {
         vscode.window.showErrorMessage('No workspace folder open.');
         return;
     }
 
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    const frontendPath = path.join(workspaceRoot, config.frontend.path);
-    const backendPath = path.join(workspaceRoot, config.backend.path);
-
-    // Get start commands
-    let frontendCommand = getStartCommand(config.frontend.framework, 'frontend', config.frontend.customCommand);
-    let backendCommand = getStartCommand(config.backend.framework, 'backend', config.backend.customCommand);
-
-    // Override with profile commands if set
-    const activeProfile = config.profiles[config.activeProfile];
-    if (activeProfile) {
-        if (activeProfile.frontend) {
-            frontendCommand = activeProfile.frontend;
-            logger.log('SYSTEM', `Using ${config.activeProfile} profile command for Frontend: ${frontendCommand}`);
-        }
-        if (activeProfile.backend) {
-            backendCommand = activeProfile.backend;
-            logger.log('SYSTEM', `Using ${config.activeProfile} profile command for Backend: ${backendCommand}`);
-        }
+    // Work out the startup order up front so a bad dependency fails before anything runs
+    let startupOrder: ServiceConfig[];
+    try {
+        startupOrder = ServiceGraph.getStartupOrder(config.services);
+    } catch (error: any) {
+        logger.error('SYSTEM', error.message);
+        vscode.window.showErrorMessage(error.message);
+        return;
     }
 
-    // Check for Docker overrides
-    if (config.useDocker) {
-        const frontendDockerCmd = await DockerUtils.getDockerCommand(frontendPath);
-        if (frontendDockerCmd) {
-            frontendCommand = frontendDockerCmd;
-            logger.log('SYSTEM', `Using Docker for Frontend: ${frontendCommand}`);
-        }
-
-        const backendDockerCmd = await DockerUtils.getDockerCommand(backendPath);
-        if (backendDockerCmd) {
-            backendCommand = backendDockerCmd;
-            logger.log('SYSTEM', `Using Docker for Backend: ${backendCommand}`);
-        }
+    // Resolve start commands
+    const commands = new Map<string, string>();
+    for (const service of config.services) {
+        commands.set(service.name, await resolveServiceCommand(service, config));
     }
 
-    // Check for port conflicts
-    const frontendPort = PortUtils.getPortForFramework(config.frontend.framework, 'frontend');
-    const backendPort = PortUtils.getPortForFramework(config.backend.framework, 'backend');
-
-    const checkPort = async (port: number, name: string) => {
-        const isAvailable = await PortUtils.isPortAvailable(port);
-        if (!isAvailable) {
-            const selection = await vscode.window.showErrorMessage(
-                `Port ${port} is already in use by another process (${name}).`,
-                'Kill Process',
-                'Ignore',
-                'Cancel'
-            );
-
-            if (selection === 'Kill Process') {
-                const killed = await PortUtils.killProcessOnPort(port);
-                if (!killed) {
-                    logger.log('ERROR', `Failed to kill process on port ${port}.`);
-                    vscode.window.showErrorMessage(`Failed to kill process on port ${port}.`);
-                    return false;
-                }
-                logger.log('SYSTEM', `Killed process on port ${port}.`);
-            } else if (selection === 'Cancel' || !selection) {
-                logger.log('SYSTEM', `Startup cancelled due to port conflict on ${port}.`);
-                return false;
-            } else {
-                logger.log('SYSTEM', `Ignoring port conflict on ${port}.`);
-            }
-        }
-        return true;
-    };
+    // Check for port conflicts. Every service's port is reserved so a reassigned port never takes another's
+    const ports = new Map<string, number>();
+    for (const service of config.services) {
+        ports.set(service.name, PortUtils.resolveServicePort(service, commands.get(service.name)!).port);
+    }
+    const reserved = new Set(ports.values());
+    if (config.proxy.enabled) {
+        reserved.add(config.proxy.port);
+    }
+    for (const service of config.services) {
+        const port = await checkPort(ports.get(service.name)!, service.name, config.portConflictPolicy, reserved, terminalProvider);
+        if (port === undefined) return;
+        reserved.add(port);
 
-    if (!(await checkPort(frontendPort, 'Frontend'))) return;
-    if (!(await checkPort(backendPort, 'Backend'))) return;
+        // Known before anything launches, so other services' URLs and ${port:...} placeholders pick it up
+        PortUtils.setActivePort(service.name, port, ports.get(service.name));
+        ports.set(service.name, port);
+    }
 
     // Check for dependencies
 
@@ -122,63 +105,327 @@ export async function startServers(
             );
 
             if (selection === 'Install Now') {
-                logger.log('SYSTEM', `Installing dependencies for ${name}...`);
-                const terminal = vscode.window.createTerminal(`📦 Install ${name}`);
-                terminal.show();
-                terminal.sendText(`cd "${folderPath}"`);
-                terminal.sendText(DependencyUtils.getInstallCommand(framework));
-
-                // Wait for install to finish might be complex, so we'll just inform the user
-                vscode.window.showInformationMessage(`Installing dependencies for ${name}... Please wait for it to finish before starting servers again.`);
-                return false;
+                logger.info('SYSTEM', `Installing dependencies for ${name}...`, { service: name });
+
+                // File changes made by the install must not restart watched services
+                const code = await FileWatcher.getInstance().pauseWhile(
+                    terminalProvider.runTask(`📦 Install ${name}`, folderPath, DependencyUtils.getInstallCommand(framework))
+                );
+                if (code !== 0) {
+                    logger.error('SYSTEM', `Installing dependencies for ${name} failed with code ${code}.`, { service: name });
+                    vscode.window.showErrorMessage(`Installing dependencies for ${name} failed. Check its terminal for details.`);
+                    return false;
+                }
+                logger.info('SYSTEM', `Dependencies for ${name} installed.`, { service: name });
             } else if (selection === 'Cancel' || !selection) {
-                logger.log('SYSTEM', `Startup cancelled by user during dependency check for ${name}.`);
+                logger.info('SYSTEM', `Startup cancelled by user during dependency check for ${name}.`);
                 return false;
             } else {
-                logger.log('SYSTEM', `Skipped dependency installation for ${name}.`);
+                logger.warn('SYSTEM', `Skipped dependency installation for ${name}.`);
             }
         }
         return true;
     };
 
-    if (!(await checkDeps(frontendPath, config.frontend.framework, 'Frontend'))) return;
-    if (!(await checkDeps(backendPath, config.backend.framework, 'Backend'))) return;
+    // Mocked services don't run their own code
+    for (const service of config.services.filter(s => !s.mock)) {
+        if (!(await checkDeps(service.folder, service.framework, service.name))) return;
+    }
 
-    // Create and start frontend terminal
-    const frontendTerminal = terminalProvider.createTerminal(
-        '🎨 Frontend',
-        frontendPath,
-        'frontend'
-    );
+    // Start each service once everything it depends on is ready
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Starting servers',
+        cancellable: false
+    }, async (progress) => {
+        const started = new Map<string, Promise<boolean>>();
 
-    // Create and start backend terminal
-    const backendTerminal = terminalProvider.createTerminal(
-        '⚙️ Backend',
-        backendPath,
-        'backend'
-    );
+        for (const service of startupOrder) {
+            const dependencies = service.dependsOn.map(name => started.get(name)!);
+
+            started.set(service.name, Promise.all(dependencies).then(async (results) => {
+                if (results.some(ok => !ok)) {
+                    logger.warn('SYSTEM', `Not starting ${service.name}: a dependency did not become ready.`, { service: service.name });
+                    return false;
+                }
+
+                progress.report({ message: service.name });
+                const launched = await launchService(service, config, workspaceRoot, commands.get(service.name)!, ports.get(service.name)!, terminalProvider);
+
+                // Only services something depends on gate the startup. A mock is ready once it listens
+                if (!launched || service.mock || ServiceGraph.getDependents(config.services, service.name).length === 0) {
+                    return launched;
+                }
 
-    // Show terminals
-    frontendTerminal.show(true);
+                const startedAt = Date.now();
+                progress.report({ message: `Waiting for ${service.name} to be ready...` });
+                try {
+                    await ReadinessChecker.waitUntilReady(service, PortUtils.getServicePort(service), terminalProvider);
+                    logger.info('SYSTEM', `${service.name} is ready after ${((Date.now() - startedAt) / 1000).toFixed(1)}s.`, { service: service.name, port: PortUtils.getServicePort(service) });
+                    return true;
+                } catch (error: any) {
+                    logger.error('SYSTEM', error.message, { service: service.name });
+                    vscode.window.showErrorMessage(error.message);
+                    return false;
+                }
+            }));
+        }
 
-    // Run commands with a slight delay
-    setTimeout(() => {
-        terminalProvider.runCommand('🎨 Frontend', frontendCommand);
-    }, 500);
+        await Promise.all(started.values());
+    });
 
-    setTimeout(() => {
-        backendTerminal.show(true);
-        terminalProvider.runCommand('⚙️ Backend', backendCommand);
-    }, 1000);
+    if (config.proxy.enabled) {
+        try {
+            await DevProxy.getInstance().start(config.proxy, config.services);
+        } catch (error: any) {
+            logger.error('SYSTEM', `Could not start the proxy: ${error.message}`, { port: config.proxy.port });
+            vscode.window.showErrorMessage(`Could not start the proxy: ${error.message}`);
+        }
+    }
 
-    // Show success message with error capture reminder
-    logger.log('SYSTEM', 'Servers started successfully.');
+    // Output is streamed to the log channel and errors are captured from it
+    logger.info('SYSTEM', 'Servers started successfully.');
     vscode.window.showInformationMessage(
-        '🚀 Servers starting! If you see an error, select the text and use "Project Starter: Copy Last Error" or click the button below.',
-        'Capture Error from Clipboard'
-    ).then((selection) => {
-        if (selection === 'Capture Error from Clipboard') {
-            terminalProvider.captureErrorFromClipboard();
+        '🚀 Servers starting! Output is streamed to the "Project Starter Logs" channel and errors are captured automatically.'
+    );
+}
+
+/**
+ * Starts a single configured service on its own, without waiting for its dependencies.
+ */
+export async function startService(
+    configProvider: ConfigurationProvider,
+    terminalProvider: TerminalProvider,
+    name: string
+): Promise<boolean> {
+    const config = configProvider.getConfig();
+    const service = config.services.find(s => s.name === name);
+    const workspaceRoot = configProvider.getRoot();
+    if (!service || !workspaceRoot) {
+        vscode.window.showErrorMessage(`Service "${name}" is not configured.`);
+        return false;
+    }
+
+    const command = await resolveServiceCommand(service, config);
+    const reserved = new Set(config.services.filter(s => s.name !== name).map(s => PortUtils.getServicePort(s)));
+    const originalPort = PortUtils.resolveServicePort(service, command).port;
+    const port = await checkPort(originalPort, service.name, config.portConflictPolicy, reserved, terminalProvider);
+    if (port === undefined) return false;
+    PortUtils.setActivePort(service.name, port, originalPort);
+
+    LogProvider.getInstance().info('SYSTEM', `Starting ${service.name}...`, { service: service.name, profile: config.activeProfile });
+    return launchService(service, config, workspaceRoot, command, port, terminalProvider);
+}
+
+/**
+ * Works out the command a service runs with: its own command (the active profile's override
+ * is already applied) or the framework default, then Docker when enabled.
+ */
+async function resolveServiceCommand(service: ServiceConfig, config: ProjectConfig): Promise<string> {
+    const logger = LogProvider.getInstance();
+    let command = getServiceCommand(service);
+
+    // Check for Docker overrides
+    if (service.useDocker ?? config.useDocker) {
+        const dockerCmd = await DockerUtils.getDockerCommand(service.folder);
+        if (dockerCmd) {
+            command = dockerCmd;
+            logger.info('SYSTEM', `Using Docker for ${service.name}: ${command}`, { service: service.name });
+        }
+    }
+
+    return command;
+}
+
+/**
+ * Handles a service's port being taken, by asking or by the configured policy.
+ * Resolves the port to start the service on, or undefined to abort.
+ */
+async function checkPort(
+    port: number,
+    name: string,
+    policy: ProjectConfig['portConflictPolicy'],
+    reserved: Set<number>,
+    terminalProvider: TerminalProvider
+): Promise<number | undefined> {
+    const logger = LogProvider.getInstance();
+    const isAvailable = await PortUtils.isPortAvailable(port);
+    if (isAvailable) return port;
+
+    // Show who is about to be killed, and never kill a stranger without asking
+    const owner = await ProcessUtils.getPortOwner(port);
+    const ownerService = owner ? await terminalProvider.findServiceByPid(owner.pid) : undefined;
+    if (owner) {
+        logger.warn('SYSTEM', `Port ${port} is used by ${owner.name} (PID ${owner.pid}): ${owner.commandLine}`, {
+            service: name, port, pid: owner.pid, owner: ownerService
+        });
+    }
+
+    let selection: string | undefined;
+    if (policy === 'reassign') {
+        selection = 'Use Next Free Port';
+    } else if (policy === 'kill' && ownerService) {
+        selection = 'Kill Process';
+    } else {
+        const { message, detail } = describePortOwner(port, name, owner, ownerService);
+        selection = await vscode.window.showWarningMessage(
+            message,
+            { modal: true, detail },
+            'Use Next Free Port',
+            'Kill Process',
+            'Ignore'
+        );
+    }
+
+    if (selection === 'Use Next Free Port') {
+        const freePort = await PortUtils.findFreePort(port, reserved);
+        if (freePort === undefined) {
+            logger.error('SYSTEM', `No free port found after ${port}.`, { service: name, port });
+            vscode.window.showErrorMessage(`No free port found for ${name} after ${port}.`);
+            return undefined;
         }
+        logger.warn('SYSTEM', `Port ${port} is in use, starting ${name} on port ${freePort} instead.`, { service: name, port: freePort });
+        return freePort;
+    } else if (selection === 'Kill Process') {
+        const killed = owner
+            ? await ProcessUtils.terminate(owner.pid, 3000)
+            : await PortUtils.killProcessOnPort(port);
+        if (!killed) {
+            logger.error('SYSTEM', `Failed to kill process on port ${port}.`, { service: name, port, pid: owner?.pid });
+            vscode.window.showErrorMessage(`Failed to kill process on port ${port}.`);
+            return undefined;
+        }
+        logger.info('SYSTEM', `Killed ${owner ? `${owner.name} (PID ${owner.pid})` : 'process'} on port ${port}.`, { service: name, port, pid: owner?.pid });
+    } else if (!selection) {
+        logger.info('SYSTEM', `Startup cancelled due to port conflict on ${port}.`, { service: name, port });
+        return undefined;
+    } else {
+        logger.warn('SYSTEM', `Ignoring port conflict on ${port}.`, { service: name, port });
+    }
+    return port;
+}
+
+/**
+ * Builds the conflict prompt: who owns the port and whether Project Starter started it.
+ */
+function describePortOwner(port: number, name: string, owner: ProcessInfo | undefined, ownerService: string | undefined): { message: string; detail: string } {
+    if (!owner) {
+        return {
+            message: `Port ${port} is already in use (${name}).`,
+            detail: 'The process using it could not be determined. Killing it may stop something that is not part of this project.'
+        };
+    }
+
+    const lines = [
+        `PID: ${owner.pid}`,
+        `Command: ${owner.commandLine || owner.name}`,
+        `Working directory: ${owner.cwd || 'unknown'}`,
+        `Started: ${owner.startTime ? owner.startTime.toLocaleString() : 'unknown'}`,
+        '',
+        ownerService
+            ? `This process belongs to the "${ownerService}" service started by Project Starter.`
+            : '⚠️ This process was not started by Project Starter. It may be another project, a database or a system service.'
+    ];
+    return {
+        message: `Port ${port} (${name}) is in use by ${owner.name} (PID ${owner.pid}).`,
+        detail: lines.join('\n')
+    };
+}
+
+/**
+ * Environment for a service: its own env settings with ${port:<service>} placeholders filled in,
+ * plus URLs from its .env files rewritten to follow services that moved to another port.
+ */
+function getServiceEnv(service: ServiceConfig, config: ProjectConfig, folder: string): Record<string, string> {
+    const env: Record<string, string> = {};
+
+    const moved: PortReassignment[] = [];
+    for (const other of config.services) {
+        const reassignment = other.name !== service.name ? PortUtils.getReassignment(other.name) : undefined;
+        if (reassignment) moved.push(reassignment);
+    }
+    if (moved.length > 0) {
+        // Variables already in the environment take precedence over .env files for Vite, CRA, Next.js and dotenv
+        const fileEnv: Record<string, string> = Object.assign({}, ...ENV_FILES.map(file => EnvManager.readEnv(path.join(folder, file))));
+        for (const [key, raw] of Object.entries(fileEnv)) {
+            const value = raw.replace(/^(['"])(.*)\1$/, '$2');
+            let updated = value;
+            for (const { from, to } of moved) {
+                updated = updated.replace(new RegExp(`(localhost|127\\.0\\.0\\.1|0\\.0\\.0\\.0):${from}\\b`, 'g'), `$1:${to}`);
+            }
+            if (updated !== value) {
+                env[key] = updated;
+                LogProvider.getInstance().info('SYSTEM', `Overriding ${key}=${updated} for this session.`, { service: service.name });
+            }
+        }
+    }
+
+    // The profile's env file, then env entries, override what the service would read itself
+    const declared: Record<string, string> = {};
+    if (service.envFile) {
+        const envFile = path.resolve(folder, service.envFile);
+        if (!fs.existsSync(envFile)) {
+            LogProvider.getInstance().warn(service.name, `Env file ${envFile} not found.`, { service: service.name });
+        }
+        for (const [key, value] of Object.entries(EnvManager.readEnv(envFile))) {
+            declared[key] = value.replace(/^(['"])(.*)\1$/, '$2');
+        }
+    }
+    Object.assign(declared, service.env);
+    for (const [key, value] of Object.entries(declared)) {
+        env[key] = value.replace(/\$\{port:([^}]+)\}/g, (placeholder, name: string) => {
+            const other = config.services.find(s => s.name === name.trim());
+            return other ? String(PortUtils.getServicePort(other)) : placeholder;
+        });
+    }
+    return env;
+}
+
+/**
+ * Runs the service in its terminal, or serves its mocks. Resolves whether it was launched.
+ */
+async function launchService(service: ServiceConfig, config: ProjectConfig, workspaceRoot: string, command: string, port: number, terminalProvider: TerminalProvider): Promise<boolean> {
+    if (service.mock) {
+        try {
+            await MockServer.getInstance().start(service, port, workspaceRoot);
+            PortUtils.setActivePort(service.name, port, PortUtils.resolveServicePort(service, command).port);
+            HealthChecker.getInstance().updateTarget(service.name, port);
+            return true;
+        } catch (error: any) {
+            LogProvider.getInstance().error(service.name, `Could not start mock: ${error.message}`, { service: service.name, port });
+            vscode.window.showErrorMessage(`Could not start the ${service.name} mock: ${error.message}`);
+            return false;
+        }
+    }
+
+    const folder = service.folder;
+    let env = getServiceEnv(service, config, folder);
+
+    // A service moved off a busy port is told about its new one
+    const { port: resolvedPort, source } = PortUtils.resolveServicePort(service, command);
+    if (port !== resolvedPort) {
+        const applied = applyPort(command, service.framework, port);
+        command = applied.command;
+        env = { ...env, ...applied.env };
+    }
+
+    const terminal = terminalProvider.createTerminal(
+        service.name,
+        folder,
+        service.type,
+        service.framework
+    );
+    terminal.show(true);
+    terminalProvider.setRestartPolicy(service.name, service.restart);
+    terminalProvider.runCommand(service.name, command, env);
+
+    // Health checks, readiness and stop use the port this launch resolved to
+    PortUtils.setActivePort(service.name, port, resolvedPort);
+    HealthChecker.getInstance().updateTarget(service.name, port);
+    LogProvider.getInstance().debug(service.name, port === resolvedPort ? `Using port ${port} from ${source}.` : `Using port ${port} instead of ${resolvedPort}.`, { service: service.name, port });
+
+    FileWatcher.getInstance().watch(service.name, folder, service.watch, () => {
+        terminalProvider.restartService(service.name, getStopOptions(config, service.name));
     });
+    return true;
 }
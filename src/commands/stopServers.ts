@@ -1,22 +1,124 @@
 import * as vscode from 'vscode';
-import { TerminalProvider } from '../providers/terminalProvider';
+import { ConfigurationProvider, ProjectConfig } from '../providers/configurationProvider';
+import { TerminalProvider, StopOptions, StopReport } from '../providers/terminalProvider';
+import { LogProvider } from '../providers/logProvider';
+import { PortUtils } from '../utils/portUtils';
+import { ServiceGraph } from '../utils/serviceGraph';
+import { FileWatcher } from '../utils/fileWatcher';
+import { DevProxy } from '../utils/devProxy';
+import { MockServer } from '../utils/mockServer';
 
-export async function stopServers(terminalProvider: TerminalProvider): Promise<void> {
+export async function stopServers(
+    configProvider: ConfigurationProvider,
+    terminalProvider: TerminalProvider
+): Promise<void> {
     const activeTerminals = terminalProvider.getActiveTerminals();
+    const mocks = MockServer.getInstance().getRunning();
 
-    if (activeTerminals.length === 0) {
+    if (activeTerminals.length === 0 && mocks.length === 0) {
+        await DevProxy.getInstance().stop();
         vscode.window.showInformationMessage('No servers are currently running.');
         return;
     }
 
     const confirm = await vscode.window.showWarningMessage(
-        `Stop ${activeTerminals.length} running server(s)?`,
+        `Stop ${activeTerminals.length + mocks.length} running server(s)?`,
         'Stop All',
         'Cancel'
     );
 
-    if (confirm === 'Stop All') {
-        terminalProvider.disposeAll();
-        vscode.window.showInformationMessage('✅ All servers stopped.');
+    if (confirm !== 'Stop All') return;
+
+    const config = configProvider.getConfig();
+    FileWatcher.getInstance().unwatchAll();
+
+    // Stop dependents before the services they depend on
+    let order: string[];
+    try {
+        order = ServiceGraph.getStartupOrder(config.services).map(s => s.name).reverse();
+    } catch {
+        order = [];
+    }
+    const names = [
+        ...order.filter(name => activeTerminals.includes(name)),
+        ...activeTerminals.filter(name => !order.includes(name))
+    ];
+
+    const reports: StopReport[] = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Stopping servers',
+        cancellable: false
+    }, async (progress) => {
+        const results: StopReport[] = [];
+        for (const name of names) {
+            progress.report({ message: name });
+            results.push(await terminalProvider.stopService(name, getStopOptions(config, name)));
+            PortUtils.clearActivePort(name);
+        }
+        return results;
+    });
+    await MockServer.getInstance().stopAll();
+    mocks.forEach(name => PortUtils.clearActivePort(name));
+    await DevProxy.getInstance().stop();
+
+    reportStopResults(reports, '✅ All servers stopped.');
+}
+
+/**
+ * Stops a single service with its configured stop command and grace period.
+ */
+export async function stopService(
+    configProvider: ConfigurationProvider,
+    terminalProvider: TerminalProvider,
+    name: string
+): Promise<StopReport> {
+    FileWatcher.getInstance().unwatch(name);
+    if (MockServer.getInstance().isRunning(name)) {
+        await MockServer.getInstance().stop(name);
+        PortUtils.clearActivePort(name);
+        vscode.window.showInformationMessage(`✅ ${name} mock stopped.`);
+        return { name, forced: false, leftovers: [] };
+    }
+    const report = await terminalProvider.stopService(name, getStopOptions(configProvider.getConfig(), name));
+    PortUtils.clearActivePort(name);
+    reportStopResults([report], `✅ ${name} stopped.`);
+    return report;
+}
+
+export function getStopOptions(config: ProjectConfig, name: string): StopOptions {
+    const service = config.services.find(s => s.name === name);
+    return {
+        gracePeriod: service?.stopGracePeriod ?? config.stopGracePeriod,
+        stopCommand: service?.stopCommand,
+        port: service ? PortUtils.getServicePort(service) : undefined
+    };
+}
+
+function reportStopResults(reports: StopReport[], successMessage: string): void {
+    const logger = LogProvider.getInstance();
+    const problems: string[] = [];
+    for (const report of reports) {
+        if (report.forced) {
+            logger.warn('SYSTEM', `${report.name} did not stop within the grace period and was killed.`, { service: report.name });
+        }
+        if (report.leftovers.length > 0) {
+            const list = report.leftovers.map(p => `${p.name} (PID ${p.pid})`).join(', ');
+            logger.error('SYSTEM', `${report.name} left processes running: ${list}`, { service: report.name });
+            problems.push(`${report.name}: ${list} still running`);
+        }
+        if (report.portFree === false) {
+            logger.error('SYSTEM', `${report.name}'s port is still in use after stopping.`, { service: report.name });
+            problems.push(`${report.name}: port still in use`);
+        }
+    }
+
+    if (problems.length > 0) {
+        vscode.window.showWarningMessage(`Servers stopped with leftovers. ${problems.join('; ')}`, 'Show Logs').then(selection => {
+            if (selection === 'Show Logs') {
+                logger.show();
+            }
+        });
+    } else {
+        vscode.window.showInformationMessage(successMessage);
     }
 }
@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { ConfigurationProvider, ServiceConfig } from '../providers/configurationProvider';
+import { TerminalProvider } from '../providers/terminalProvider';
+import { LogProvider } from '../providers/logProvider';
+import { MockServer } from '../utils/mockServer';
+import { startService } from './startServers';
+import { stopService } from './stopServers';
+
+/**
+ * Makes another profile active, picked from a list when none is given, and restarts the running
+ * services whose command, folder, environment, port or Docker use it changes.
+ */
+export async function switchProfile(
+    configProvider: ConfigurationProvider,
+    terminalProvider: TerminalProvider,
+    profile?: string
+): Promise<void> {
+    const config = configProvider.getConfig();
+
+    if (!profile) {
+        const picked = await vscode.window.showQuickPick(Object.entries(config.profiles).map(([name, value]) => ({
+            label: name === config.activeProfile ? `$(check) ${name}` : name,
+            description: value.extends ? `extends ${value.extends}` : undefined,
+            name
+        })), { placeHolder: `Active profile: ${config.activeProfile}` });
+        if (!picked) return;
+        profile = picked.name;
+    }
+    if (profile === config.activeProfile) return;
+
+    const { error } = ConfigurationProvider.getProfileChain(config.profiles, profile);
+    if (error) {
+        vscode.window.showErrorMessage(error);
+        return;
+    }
+
+    await configProvider.setActiveProfile(profile);
+    LogProvider.getInstance().info('SYSTEM', `Switched to profile ${profile}.`, { profile });
+
+    const after = configProvider.getConfig().services;
+    const affected = config.services.filter(before => {
+        const running = terminalProvider.isRunning(before.name) || MockServer.getInstance().isRunning(before.name);
+        const current = after.find(s => s.name === before.name);
+        return running && current && getLaunchSettings(before) !== getLaunchSettings(current);
+    });
+
+    for (const service of affected) {
+        await stopService(configProvider, terminalProvider, service.name);
+        await startService(configProvider, terminalProvider, service.name);
+    }
+
+    vscode.window.showInformationMessage(affected.length > 0
+        ? `Switched to profile "${profile}" and restarted ${affected.map(s => s.name).join(', ')}.`
+        : `Switched to profile "${profile}".`);
+}
+
+/**
+ * The settings a profile can change, for comparing a service before and after a switch.
+ */
+function getLaunchSettings(service: ServiceConfig): string {
+    const { command, path, env, envFile, port, useDocker } = service;
+    return JSON.stringify({ command, path, env, envFile, port, useDocker });
+}
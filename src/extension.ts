@@ -1,30 +1,59 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ConfigurationProvider } from './providers/configurationProvider';
 import { TerminalProvider } from './providers/terminalProvider';
 import { ConfigPanel } from './webview/ConfigPanel';
+import { TrafficPanel } from './webview/TrafficPanel';
 import { configureProject } from './commands/configureProject';
-import { startServers } from './commands/startServers';
-import { stopServers } from './commands/stopServers';
+import { exportConfig } from './commands/exportConfig';
+import { importConfig } from './commands/importConfig';
+import { runDoctor } from './commands/runDoctor';
+import { selectProjectFolder } from './commands/selectProjectFolder';
+import { switchProfile } from './commands/switchProfile';
+import { startServers, startService } from './commands/startServers';
+import { stopServers, stopService } from './commands/stopServers';
+import { ServiceTreeProvider, ServiceTreeItem } from './providers/serviceTreeProvider';
 import { HealthChecker, HealthStatus } from './utils/healthChecker';
 import { PortUtils } from './utils/portUtils';
 import { AIHelper } from './utils/aiHelper';
+import { FileWatcher } from './utils/fileWatcher';
+import { ResourceMonitor } from './utils/resourceMonitor';
+import { DevProxy } from './utils/devProxy';
+import { MockServer } from './utils/mockServer';
+import { LogProvider } from './providers/logProvider';
 
 let terminalProvider: TerminalProvider;
 let statusBarStart: vscode.StatusBarItem;
 let statusBarStop: vscode.StatusBarItem;
 let statusBarConfig: vscode.StatusBarItem;
-let statusBarFrontendHealth: vscode.StatusBarItem;
-let statusBarBackendHealth: vscode.StatusBarItem;
+let statusBarApp: vscode.StatusBarItem;
+const statusBarHealth: Map<string, vscode.StatusBarItem> = new Map();
+
+// Workspace state key of the workspace folder whose project is used in a multi-root workspace
+const PROJECT_FOLDER_KEY = 'projectStarter.projectFolder';
+
+function disposeHealthItems() {
+    for (const item of statusBarHealth.values()) {
+        item.dispose();
+    }
+    statusBarHealth.clear();
+}
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Project Starter extension is now active!');
 
     // Initialize providers
-    const configProvider = new ConfigurationProvider();
+    const logStorage = context.storageUri || context.globalStorageUri;
+    LogProvider.getInstance().initialize(logStorage.fsPath);
+    const configProvider = new ConfigurationProvider(context.workspaceState.get<string>(PROJECT_FOLDER_KEY));
     terminalProvider = new TerminalProvider();
 
-    // Set initial auto-restart state
-    terminalProvider.setAutoRestart(configProvider.getConfig().autoRestart);
+    // Move frontend/backend settings from older versions into the services list
+    configProvider.migrateLegacyConfig().then(migrated => {
+        if (migrated) {
+            vscode.window.showInformationMessage('Project Starter: your frontend/backend settings were migrated to "projectStarter.services".');
+        }
+    });
 
     // Create status bar items
     statusBarConfig = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 101);
@@ -35,7 +64,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     statusBarStart = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
     statusBarStart.text = '$(play) Start';
-    statusBarStart.tooltip = 'Start frontend and backend servers';
+    statusBarStart.tooltip = 'Start all configured services';
     statusBarStart.command = 'projectStarter.start';
     statusBarStart.show();
 
@@ -45,58 +74,134 @@ export function activate(context: vscode.ExtensionContext) {
     statusBarStop.command = 'projectStarter.stop';
     statusBarStop.show();
 
-    statusBarFrontendHealth = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 98);
-    statusBarFrontendHealth.text = 'Frontend: $(circle-outline)';
-    statusBarFrontendHealth.tooltip = 'Frontend Server Health';
-    statusBarFrontendHealth.hide();
+    // The proxy is the app's single entry point while it runs
+    statusBarApp = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+    statusBarApp.command = 'projectStarter.openApp';
+    const proxyStateListener = DevProxy.getInstance().onDidChangeState(() => {
+        const url = DevProxy.getInstance().getUrl();
+        if (url) {
+            statusBarApp.text = `$(globe) ${url.replace('http://', '')}`;
+            statusBarApp.tooltip = `Open the app through the proxy at ${url}`;
+            statusBarApp.show();
+        } else {
+            statusBarApp.hide();
+        }
+    });
+
+    // Services view in the activity bar
+    const serviceTree = new ServiceTreeProvider(configProvider, terminalProvider);
+    const serviceTreeView = vscode.window.createTreeView('projectStarter.services', { treeDataProvider: serviceTree });
 
-    statusBarBackendHealth = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 97);
-    statusBarBackendHealth.text = 'Backend: $(circle-outline)';
-    statusBarBackendHealth.tooltip = 'Backend Server Health';
-    statusBarBackendHealth.hide();
+    // In a multi-root workspace the status bar and the view say which folder's project is used
+    const updateProjectFolder = () => {
+        const folder = configProvider.getFolder();
+        const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+        statusBarConfig.text = multiRoot && folder ? `$(gear) Project Starter: ${folder.name}` : '$(gear) Project Starter';
+        serviceTreeView.description = multiRoot ? folder?.name : undefined;
+    };
+    updateProjectFolder();
+
+    // Menus can't read the repo config file, so proxy.enabled is passed on as a context key
+    const updateProxyContext = () => {
+        vscode.commands.executeCommand('setContext', 'projectStarter.proxyEnabled', configProvider.getConfig().proxy.enabled);
+    };
+    updateProxyContext();
+
+    const projectFolderListeners = [
+        configProvider.onDidChange(updateProjectFolder),
+        configProvider.onDidChange(updateProxyContext),
+        vscode.workspace.onDidChangeWorkspaceFolders(updateProjectFolder)
+    ];
+
+    const chooseProjectFolder = async (): Promise<boolean> => {
+        const folder = await selectProjectFolder(configProvider, terminalProvider);
+        if (folder) {
+            await context.workspaceState.update(PROJECT_FOLDER_KEY, folder.name);
+        }
+        return !!folder;
+    };
+
+    // Service commands get the tree item when invoked from the view, otherwise ask which service
+    const pickService = async (item?: ServiceTreeItem): Promise<string | undefined> => {
+        if (item) return item.service.name;
+        const names = configProvider.getConfig().services.map(service => service.name);
+        return vscode.window.showQuickPick(names, { placeHolder: 'Select a service' });
+    };
 
     // Register commands
     const openDashboardCmd = vscode.commands.registerCommand('projectStarter.openDashboard', () => {
-        ConfigPanel.createOrShow(context.extensionUri, configProvider);
+        ConfigPanel.createOrShow(context.extensionUri, configProvider, terminalProvider);
     });
 
-    const configureCmd = vscode.commands.registerCommand('projectStarter.configure', () => {
+    const configureCmd = vscode.commands.registerCommand('projectStarter.configure', async () => {
+        // Every root can have its own project, so ask which one to configure
+        if ((vscode.workspace.workspaceFolders?.length ?? 0) > 1 && !(await chooseProjectFolder())) return;
         configureProject(configProvider);
     });
 
+    const selectProjectFolderCmd = vscode.commands.registerCommand('projectStarter.selectProjectFolder', () => {
+        chooseProjectFolder();
+    });
+
+    const importConfigCmd = vscode.commands.registerCommand('projectStarter.importConfig', () => {
+        importConfig(configProvider);
+    });
+
+    const exportConfigCmd = vscode.commands.registerCommand('projectStarter.exportConfig', () => {
+        exportConfig(configProvider);
+    });
+
+    // Problems found by the Project Doctor, shown on the config and project files they are in
+    const doctorDiagnostics = vscode.languages.createDiagnosticCollection('projectStarter');
+    const doctorCmd = vscode.commands.registerCommand('projectStarter.doctor', () => {
+        runDoctor(configProvider, terminalProvider, doctorDiagnostics);
+    });
+
+    const switchProfileCmd = vscode.commands.registerCommand('projectStarter.switchProfile', (profile?: string) => {
+        switchProfile(configProvider, terminalProvider, profile);
+    });
+
     const startCmd = vscode.commands.registerCommand('projectStarter.start', async () => {
+        // Ask once which root's project to start in a multi-root workspace
+        if ((vscode.workspace.workspaceFolders?.length ?? 0) > 1 && !context.workspaceState.get(PROJECT_FOLDER_KEY)) {
+            if (!(await chooseProjectFolder())) return;
+        }
         const config = configProvider.getConfig();
-        terminalProvider.setAutoRestart(config.autoRestart);
 
         await startServers(configProvider, terminalProvider);
 
         // Start health monitoring
-        const frontendPort = PortUtils.getPortForFramework(config.frontend.framework, 'frontend');
-        const backendPort = PortUtils.getPortForFramework(config.backend.framework, 'backend');
-
-        statusBarFrontendHealth.text = 'Frontend: $(sync~spin) Checking';
-        statusBarFrontendHealth.color = new vscode.ThemeColor('statusBarItem.warningForeground');
-        statusBarFrontendHealth.show();
-
-        statusBarBackendHealth.text = 'Backend: $(sync~spin) Checking';
-        statusBarBackendHealth.color = new vscode.ThemeColor('statusBarItem.warningForeground');
-        statusBarBackendHealth.show();
+        disposeHealthItems();
+        const monitored = config.services.filter(service => service.healthCheck.enabled);
+        monitored.forEach((service, index) => {
+            const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 98 - index);
+            item.text = `${service.name}: $(sync~spin) Starting`;
+            item.tooltip = `${service.name} Server Health`;
+            item.color = new vscode.ThemeColor('statusBarItem.warningForeground');
+            item.show();
+            statusBarHealth.set(service.name, item);
+        });
 
-        HealthChecker.getInstance().startMonitoring(frontendPort, backendPort);
+        HealthChecker.getInstance().startMonitoring(monitored.map(service => ({
+            name: service.name,
+            port: PortUtils.getServicePort(service),
+            check: service.healthCheck,
+            startedAt: Date.now() - (terminalProvider.getUptime(service.name) ?? 0)
+        })));
     });
 
     const stopCmd = vscode.commands.registerCommand('projectStarter.stop', () => {
-        stopServers(terminalProvider);
+        stopServers(configProvider, terminalProvider);
         HealthChecker.getInstance().stopMonitoring();
-        statusBarFrontendHealth.hide();
-        statusBarBackendHealth.hide();
+        disposeHealthItems();
+        serviceTree.clearHealth();
     });
 
     const copyErrorCmd = vscode.commands.registerCommand('projectStarter.copyLastError', () => {
         const lastError = terminalProvider.getLastError();
         if (lastError) {
             vscode.env.clipboard.writeText(lastError);
-            vscode.window.showInformationMessage('Error copied to clipboard!');
+            vscode.window.showInformationMessage(`Error from ${terminalProvider.getLastErrorSource() || 'server'} copied to clipboard!`);
         } else {
             vscode.window.showInformationMessage('No error to copy.');
         }
@@ -118,46 +223,217 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    const openPreviousLogsCmd = vscode.commands.registerCommand('projectStarter.openPreviousLogs', async () => {
+        const files = LogProvider.getInstance().getPreviousSessionFiles();
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('No logs from a previous session.');
+            return;
+        }
+
+        const selection = await vscode.window.showQuickPick(
+            files.map(file => ({ label: path.basename(file), description: path.dirname(file), file })),
+            { placeHolder: 'Select a log file from the previous session' }
+        );
+        if (selection) {
+            const document = await vscode.workspace.openTextDocument(selection.file);
+            await vscode.window.showTextDocument(document);
+        }
+    });
+
+    const startServiceCmd = vscode.commands.registerCommand('projectStarter.startService', async (item?: ServiceTreeItem) => {
+        const name = await pickService(item);
+        if (name) await startService(configProvider, terminalProvider, name);
+    });
+
+    const stopServiceCmd = vscode.commands.registerCommand('projectStarter.stopService', async (item?: ServiceTreeItem) => {
+        const name = await pickService(item);
+        if (name) await stopService(configProvider, terminalProvider, name);
+    });
+
+    const restartService = async (name: string) => {
+        await stopService(configProvider, terminalProvider, name);
+        await startService(configProvider, terminalProvider, name);
+    };
+
+    const restartServiceCmd = vscode.commands.registerCommand('projectStarter.restartService', async (item?: ServiceTreeItem) => {
+        const name = await pickService(item);
+        if (name) await restartService(name);
+    });
+
+    const showServiceTerminalCmd = vscode.commands.registerCommand('projectStarter.showServiceTerminal', async (item?: ServiceTreeItem) => {
+        const name = await pickService(item);
+        if (name && !terminalProvider.showTerminal(name)) {
+            vscode.window.showInformationMessage(`${name} has no terminal. Start it first.`);
+        }
+    });
+
+    const openServiceInBrowserCmd = vscode.commands.registerCommand('projectStarter.openServiceInBrowser', async (item?: ServiceTreeItem) => {
+        const name = await pickService(item);
+        const service = configProvider.getConfig().services.find(s => s.name === name);
+        if (service) {
+            vscode.env.openExternal(vscode.Uri.parse(PortUtils.getServiceUrl(service)));
+        }
+    });
+
+    const openAppCmd = vscode.commands.registerCommand('projectStarter.openApp', () => {
+        const frontend = configProvider.getConfig().services.find(s => s.type === 'frontend');
+        const url = DevProxy.getInstance().getUrl() || (frontend && PortUtils.getServiceUrl(frontend));
+        if (url) {
+            vscode.env.openExternal(vscode.Uri.parse(url));
+        } else {
+            vscode.window.showInformationMessage('No proxy is running and no frontend service is configured.');
+        }
+    });
+
+    const toggleMockModeCmd = vscode.commands.registerCommand('projectStarter.toggleMockMode', async (item?: ServiceTreeItem) => {
+        const name = await pickService(item);
+        const service = configProvider.getConfig().services.find(s => s.name === name);
+        if (!service) return;
+
+        await configProvider.updateService(service.name, { mock: !service.mock });
+        const running = terminalProvider.isRunning(service.name) || MockServer.getInstance().isRunning(service.name);
+        const mode = service.mock ? 'its real command' : `mocks from ${vscode.workspace.asRelativePath(MockServer.getMocksFolder(configProvider.getRoot() || '', service.name))}`;
+        if (!running) {
+            vscode.window.showInformationMessage(`${service.name} will run with ${mode} next time it starts.`);
+            return;
+        }
+        const selection = await vscode.window.showInformationMessage(`${service.name} will run with ${mode}. Restart it now?`, 'Restart');
+        if (selection === 'Restart') {
+            await restartService(service.name);
+        }
+    });
+
+    const recordMocksCmd = vscode.commands.registerCommand('projectStarter.recordMocks', async (item?: ServiceTreeItem) => {
+        const name = await pickService(item);
+        const root = configProvider.getRoot();
+        if (!name || !root) return;
+
+        const recording = MockServer.getInstance().toggleRecording(name, root);
+        if (!recording) {
+            vscode.window.showInformationMessage(`Stopped recording mocks for ${name}.`);
+        } else if (DevProxy.getInstance().getUrl()) {
+            vscode.window.showInformationMessage(`Recording JSON responses of ${name} from traffic through ${DevProxy.getInstance().getUrl()}.`);
+        } else {
+            vscode.window.showWarningMessage(`Recording ${name}, but responses are only recorded from traffic through the dev proxy. Enable projectStarter.proxy.enabled and start the servers.`);
+        }
+    });
+
+    const openTrafficInspectorCmd = vscode.commands.registerCommand('projectStarter.openTrafficInspector', () => {
+        TrafficPanel.createOrShow();
+    });
+
+    const copyServiceErrorCmd = vscode.commands.registerCommand('projectStarter.copyServiceError', async (item?: ServiceTreeItem) => {
+        const name = await pickService(item);
+        if (!name) return;
+        const error = terminalProvider.getLastErrorFor(name);
+        if (error) {
+            vscode.env.clipboard.writeText(error);
+            vscode.window.showInformationMessage(`Error from ${name} copied to clipboard!`);
+        } else {
+            vscode.window.showInformationMessage(`No error captured for ${name}.`);
+        }
+    });
+
     // Handle health status changes
-    HealthChecker.getInstance().onStatusChange((type, status) => {
-        const item = type === 'frontend' ? statusBarFrontendHealth : statusBarBackendHealth;
-        const label = type === 'frontend' ? 'Frontend' : 'Backend';
+    const healthStatusListener = HealthChecker.getInstance().onDidChangeStatus(({ name, status }) => {
+        serviceTree.setHealth(name, status);
+        const item = statusBarHealth.get(name);
+        if (!item) return;
 
         if (status === HealthStatus.Running) {
-            item.text = `${label}: $(check) Running`;
+            item.text = MockServer.getInstance().isRunning(name) ? `${name}: $(beaker) Running (mock)` : `${name}: $(check) Running`;
             item.color = '#00d9a5';
         } else if (status === HealthStatus.Crashed) {
-            item.text = `${label}: $(error) Crashed`;
+            item.text = `${name}: $(error) Crashed`;
+            item.color = '#e94560';
+        } else if (status === HealthStatus.FailedToStart) {
+            item.text = `${name}: $(error) Failed to start`;
             item.color = '#e94560';
         } else if (status === HealthStatus.Starting) {
-            item.text = `${label}: $(sync~spin) Starting`;
+            item.text = `${name}: $(sync~spin) Starting`;
             item.color = new vscode.ThemeColor('statusBarItem.warningForeground');
         }
     });
 
+    // Keep latency, uptime and resource usage in the health item tooltips current
+    const updateHealthTooltip = (name: string) => {
+        const item = statusBarHealth.get(name);
+        if (!item) return;
+        const usage = ResourceMonitor.getInstance().getUsage(name);
+        const lines = [`**${name}** Server Health`, HealthChecker.getInstance().describe(name), usage && ResourceMonitor.describe(usage)];
+        item.tooltip = new vscode.MarkdownString(lines.filter(line => line).join('  \n'));
+    };
+    const healthCheckListener = HealthChecker.getInstance().onDidCheck(({ name }) => updateHealthTooltip(name));
+    const resourceSampleListener = ResourceMonitor.getInstance().onDidSample(() => {
+        for (const name of statusBarHealth.keys()) {
+            updateHealthTooltip(name);
+        }
+    });
+
+    const resourceThresholdListener = ResourceMonitor.getInstance().onDidExceedThreshold(async ({ name, kind, usage, threshold }) => {
+        const message = kind === 'cpu'
+            ? `${name} has been using ${Math.round(usage.cpu)}% CPU for a while (threshold ${threshold}%).`
+            : `${name} is using ${ResourceMonitor.formatBytes(usage.memory)} of memory (threshold ${ResourceMonitor.formatBytes(threshold)}).`;
+        const selection = await vscode.window.showWarningMessage(message, 'Restart', 'Ignore');
+        if (selection === 'Restart') {
+            await restartService(name);
+        }
+    });
+    ResourceMonitor.getInstance().start(() => terminalProvider.getRunningPids());
+
     context.subscriptions.push(
         openDashboardCmd,
         configureCmd,
+        selectProjectFolderCmd,
+        importConfigCmd,
+        exportConfigCmd,
+        doctorCmd,
+        doctorDiagnostics,
+        switchProfileCmd,
+        configProvider,
         startCmd,
         stopCmd,
         copyErrorCmd,
         analyzeErrorCmd,
+        openPreviousLogsCmd,
+        startServiceCmd,
+        stopServiceCmd,
+        restartServiceCmd,
+        showServiceTerminalCmd,
+        openServiceInBrowserCmd,
+        copyServiceErrorCmd,
+        openAppCmd,
+        openTrafficInspectorCmd,
+        toggleMockModeCmd,
+        recordMocksCmd,
+        { dispose: () => MockServer.getInstance().stopAll() },
+        serviceTree,
+        serviceTreeView,
+        ...projectFolderListeners,
         statusBarConfig,
         statusBarStart,
         statusBarStop,
-        statusBarFrontendHealth,
-        statusBarBackendHealth
+        statusBarApp,
+        proxyStateListener,
+        { dispose: () => DevProxy.getInstance().stop() },
+        { dispose: disposeHealthItems },
+        healthStatusListener,
+        healthCheckListener,
+        resourceSampleListener,
+        resourceThresholdListener,
+        { dispose: () => ResourceMonitor.getInstance().stop() },
+        { dispose: () => FileWatcher.getInstance().unwatchAll() },
+        LogProvider.getInstance()
     );
 
     // Show welcome message on first activation
-    const config = configProvider.getConfig();
-    if (!config.frontend.path || !config.backend.path) {
+    if (!configProvider.isConfigured()) {
         vscode.window.showInformationMessage(
             '🚀 Welcome to Project Starter! Click the gear icon in the status bar to configure your project.',
             'Open Dashboard'
         ).then(selection => {
             if (selection === 'Open Dashboard') {
-                ConfigPanel.createOrShow(context.extensionUri, configProvider);
+                ConfigPanel.createOrShow(context.extensionUri, configProvider, terminalProvider);
             }
         });
     }
@@ -165,6 +441,6 @@ export function activate(context: vscode.ExtensionContext) {
 
 export function deactivate() {
     if (terminalProvider) {
-        terminalProvider.disposeAll();
+        return terminalProvider.disposeAll();
     }
 }
@@ -1,124 +1,768 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+
+export type ServiceType = 'frontend' | 'backend';
+
+export interface HealthCheckConfig {
+    enabled: boolean;
+    /** tcp only connects to the port; http and https send a GET and check the response. */
+    type: 'tcp' | 'http' | 'https';
+    host: string;
+    /** Path probed on the service port, e.g. /api/health. */
+    path: string;
+    /** Status codes counted as healthy, as ranges and single codes, e.g. "200-299,304". */
+    expectedStatus: string;
+    /** Regular expression the response body must match. Empty accepts any body. */
+    bodyPattern: string;
+    /** Milliseconds between checks. */
+    interval: number;
+    /** Milliseconds before a check counts as failed. */
+    timeout: number;
+    /** Consecutive failed checks before the service is marked crashed. */
+    failureThreshold: number;
+    /** Milliseconds a service may take to pass its first check before it is marked as failed to start. */
+    startupTimeout: number;
+}
+
+export interface ReadinessConfig {
+    /** How to tell the service is up: port accepts connections, HTTP check passes or a log line matches. */
+    type: 'port' | 'http' | 'log';
+    path: string;
+    /** Regular expression matched against output lines for log readiness. */
+    pattern: string;
+    /** Milliseconds to wait before giving up on the service. */
+    timeout: number;
+}
+
+export interface RestartConfig {
+    /** never, on-failure (non-zero exit) or always (any exit the user didn't ask for). */
+    policy: 'never' | 'on-failure' | 'always';
+    maxAttempts: number;
+    /** Delay before the first restart, in ms. Each further attempt multiplies it by backoffMultiplier. */
+    backoff: number;
+    backoffMultiplier: number;
+    maxBackoff: number;
+    /** Uptime in ms after which the service counts as stable and its attempt counter resets. */
+    resetAfter: number;
+}
+
+export interface WatchConfig {
+    /** Globs relative to the service folder. Watching is off while this is empty. */
+    include: string[];
+    /** Globs for changes that never trigger a restart. */
+    exclude: string[];
+    /** Milliseconds to wait for more changes before restarting. */
+    debounce: number;
+}
+
+// Build output and dependency folders churn during builds and installs
+const DEFAULT_WATCH_EXCLUDE = ['**/node_modules/**', '**/.git/**', '**/__pycache__/**', '**/venv/**', '**/.venv/**', '**/target/**', '**/dist/**', '**/build/**'];
+
+export interface ServiceConfig {
+    name: string;
+    type: ServiceType;
+    /** Service folder, relative to the project's workspace folder, absolute, or "${workspaceFolder:<name>}/..." for another root. */
+    path: string;
+    /** Absolute service folder, resolved from path. Not stored in settings. */
+    folder: string;
+    framework: string;
+    /** Start command. Empty means the framework default. */
+    command: string;
+    /** Port the service listens on. Empty means the framework default. */
+    port?: number;
+    healthCheck: HealthCheckConfig;
+    /** Names of services that must be ready before this one starts. */
+    dependsOn: string[];
+    readiness: ReadinessConfig;
+    /** Command run to stop the service instead of signalling it. */
+    stopCommand: string;
+    /** Overrides the global grace period before the process tree is killed. */
+    stopGracePeriod?: number;
+    restart: RestartConfig;
+    /** Files whose changes restart the service, for servers without their own reload. */
+    watch: WatchConfig;
+    /** Extra environment variables. ${port:<service>} is replaced with that service's port. */
+    env: Record<string, string>;
+    /** Serve responses from .projectstarter/mocks on the service port instead of running the command. */
+    mock: boolean;
+    /** .env style file loaded into the environment, relative to the service folder. */
+    envFile: string;
+    /** Overrides the global useDocker setting for this service. */
+    useDocker?: boolean;
+}
+
+/**
+ * What a profile changes about a service.
+ */
+export interface ServiceOverride {
+    command?: string;
+    /** Service folder, replaces path. */
+    cwd?: string;
+    /** Merged over the service's env. */
+    env?: Record<string, string>;
+    envFile?: string;
+    port?: number;
+    useDocker?: boolean;
+}
+
+/**
+ * A named profile. Keys other than extends are service names, or "frontend"/"backend" for every service
+ * of that type. A string value is shorthand for a command override; an empty string changes nothing.
+ */
+export interface ProfileConfig {
+    /** Profile whose overrides apply first. */
+    extends?: string;
+    [service: string]: string | ServiceOverride | undefined;
+}
+
+/**
+ * A service as written in settings: every field, including nested ones, is optional and defaults are filled in on read.
+ */
+export type ServiceEntry = Omit<Partial<ServiceConfig>, 'folder' | 'healthCheck' | 'readiness' | 'restart' | 'watch'> & {
+    healthCheck?: Partial<HealthCheckConfig>;
+    readiness?: Partial<ReadinessConfig>;
+    restart?: Partial<RestartConfig>;
+    watch?: Partial<WatchConfig>;
+};
+
+export interface ProxyConfig {
+    enabled: boolean;
+    /** Port the single origin is served on. */
+    port: number;
+    /** Path prefix to service name, e.g. { "/api": "API" }. An empty name means the first backend service. */
+    routes: Record<string, string>;
+    /** Service for paths no route matches. Empty means the first frontend service. */
+    defaultService: string;
+}
 
 export interface ProjectConfig {
-    frontend: {
-        path: string;
-        framework: string;
-        customCommand: string;
-    };
-    backend: {
-        path: string;
-        framework: string;
-        customCommand: string;
-    };
-    activeProfile: 'dev' | 'prod' | 'test';
-    profiles: {
-        dev: { frontend: string; backend: string };
-        prod: { frontend: string; backend: string };
-        test: { frontend: string; backend: string };
-    };
+    services: ServiceConfig[];
+    activeProfile: string;
+    profiles: Record<string, ProfileConfig>;
     useDocker: boolean;
     autoRestart: boolean;
+    /** Milliseconds a stopping service gets before its process tree is killed. */
+    stopGracePeriod: number;
+    /** What to do when a service's port is taken: ask, move the service to the next free port, or kill the owner. */
+    portConflictPolicy: 'ask' | 'reassign' | 'kill';
+    proxy: ProxyConfig;
 }
 
-export class ConfigurationProvider {
+/** Project config files read from the workspace root, in order of preference. */
+export const REPO_CONFIG_FILES = ['.projectstarter.json', '.projectstarter.yaml', '.projectstarter.yml'];
+
+/**
+ * Settings that can live in the repo config file. Log, resource and other per-machine settings stay in settings.json.
+ */
+export const REPO_CONFIG_KEYS = [
+    'services', 'activeProfile', 'profiles', 'useDocker', 'autoRestart', 'stopGracePeriod', 'portConflictPolicy',
+    'proxy.enabled', 'proxy.port', 'proxy.routes', 'proxy.defaultService'
+];
+
+const DEFAULT_PROFILES: Record<string, ProfileConfig> = {
+    dev: { frontend: '', backend: '' },
+    prod: { frontend: '', backend: '' },
+    test: { frontend: '', backend: '' }
+};
+
+interface RepoConfig {
+    file: string;
+    values: Record<string, any>;
+}
+
+/**
+ * Reads the configuration of the project in one workspace folder. Each setting is taken from, in order:
+ * workspace folder and workspace settings, the folder's .projectstarter.json/.yaml, user settings, then the default.
+ */
+export class ConfigurationProvider implements vscode.Disposable {
     private config: vscode.WorkspaceConfiguration;
+    private folder: vscode.WorkspaceFolder | undefined;
+    // undefined until read, null when the folder has no repo config file
+    private repoConfig: RepoConfig | null | undefined;
+    private repoWatcher: vscode.FileSystemWatcher | undefined;
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Fires when projectStarter settings or the repo config file change, or another folder is selected.
+     */
+    public readonly onDidChange = this.changeEmitter.event;
 
-    constructor() {
-        this.config = vscode.workspace.getConfiguration('projectStarter');
+    /**
+     * @param folderName Workspace folder to read the project from. Defaults to the first folder with a project.
+     */
+    constructor(folderName?: string) {
+        const folders = vscode.workspace.workspaceFolders || [];
+        this.folder = folders.find(f => f.name === folderName) || ConfigurationProvider.getDefaultFolder();
+        this.config = vscode.workspace.getConfiguration('projectStarter', this.folder?.uri);
+        this.watchRepoFile();
+
+        this.disposables.push(
+            this.changeEmitter,
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('projectStarter', this.folder?.uri)) {
+                    this.changeEmitter.fire();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(e => {
+                const removed = e.removed.some(f => f.uri.toString() === this.folder?.uri.toString());
+                if (removed || !this.folder) {
+                    this.setFolder(ConfigurationProvider.getDefaultFolder());
+                }
+            })
+        );
+    }
+
+    dispose(): void {
+        this.repoWatcher?.dispose();
+        this.disposables.forEach(d => d.dispose());
     }
 
     refresh(): void {
-        this.config = vscode.workspace.getConfiguration('projectStarter');
+        this.config = vscode.workspace.getConfiguration('projectStarter', this.folder?.uri);
+    }
+
+    /**
+     * Workspace folder the project is read from and written to.
+     */
+    getFolder(): vscode.WorkspaceFolder | undefined {
+        return this.folder;
+    }
+
+    getRoot(): string | undefined {
+        return this.folder?.uri.fsPath;
+    }
+
+    /**
+     * Switches to the project in another workspace folder.
+     */
+    setFolder(folder: vscode.WorkspaceFolder | undefined): void {
+        this.folder = folder;
+        this.repoConfig = undefined;
+        this.watchRepoFile();
+        this.refresh();
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Whether a workspace folder has a project: a repo config file or services in its folder settings.
+     */
+    static hasProject(folder: vscode.WorkspaceFolder): boolean {
+        if (REPO_CONFIG_FILES.some(name => fs.existsSync(path.join(folder.uri.fsPath, name)))) {
+            return true;
+        }
+        const services = vscode.workspace.getConfiguration('projectStarter', folder.uri).inspect<ServiceEntry[]>('services');
+        return (services?.workspaceFolderValue?.length ?? 0) > 0;
+    }
+
+    private static getDefaultFolder(): vscode.WorkspaceFolder | undefined {
+        const folders = vscode.workspace.workspaceFolders || [];
+        return folders.find(f => ConfigurationProvider.hasProject(f)) || folders[0];
+    }
+
+    private watchRepoFile(): void {
+        this.repoWatcher?.dispose();
+        this.repoWatcher = undefined;
+        if (!this.folder) return;
+
+        const onRepoFileChange = () => {
+            this.repoConfig = undefined;
+            this.changeEmitter.fire();
+        };
+        this.repoWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this.folder, '.projectstarter.{json,yaml,yml}'));
+        this.repoWatcher.onDidChange(onRepoFileChange);
+        this.repoWatcher.onDidCreate(onRepoFileChange);
+        this.repoWatcher.onDidDelete(onRepoFileChange);
     }
 
     getConfig(): ProjectConfig {
         this.refresh();
+        const root = this.getRoot() || '';
+        const services = this.getServiceEntries();
+        const autoRestart = this.get<boolean>('autoRestart') || false;
+        const resolved = services.map(s => ConfigurationProvider.createService(s, root));
+        const activeProfile = this.get<string>('activeProfile') || 'dev';
+        const profiles = this.get<Record<string, ProfileConfig>>('profiles') || DEFAULT_PROFILES;
+        const { chain } = ConfigurationProvider.getProfileChain(profiles, activeProfile);
+        resolved.forEach(service => ConfigurationProvider.applyProfile(service, chain, root));
+
+        // Services without their own restart policy follow the global auto-restart toggle
+        resolved.forEach((service, index) => {
+            if (!services[index]?.restart?.policy) {
+                service.restart.policy = autoRestart ? 'on-failure' : 'never';
+            }
+        });
+
         return {
-            frontend: {
-                path: this.config.get<string>('frontend.path') || '',
-                framework: this.config.get<string>('frontend.framework') || 'react-vite',
-                customCommand: this.config.get<string>('frontend.customCommand') || ''
-            },
-            backend: {
-                path: this.config.get<string>('backend.path') || '',
-                framework: this.config.get<string>('backend.framework') || 'express',
-                customCommand: this.config.get<string>('backend.customCommand') || ''
-            },
-            activeProfile: this.config.get<'dev' | 'prod' | 'test'>('activeProfile') || 'dev',
-            profiles: this.config.get('profiles') || {
-                dev: { frontend: '', backend: '' },
-                prod: { frontend: '', backend: '' },
-                test: { frontend: '', backend: '' }
-            },
-            useDocker: this.config.get<boolean>('useDocker') || false,
-            autoRestart: this.config.get<boolean>('autoRestart') || false
+            services: resolved,
+            activeProfile,
+            profiles,
+            useDocker: this.get<boolean>('useDocker') || false,
+            autoRestart: autoRestart,
+            stopGracePeriod: this.get<number>('stopGracePeriod') ?? 5000,
+            portConflictPolicy: this.get<'ask' | 'reassign' | 'kill'>('portConflictPolicy') || 'ask',
+            proxy: {
+                enabled: this.get<boolean>('proxy.enabled') || false,
+                port: this.get<number>('proxy.port') || 8888,
+                routes: this.get<Record<string, string>>('proxy.routes') || { '/api': '' },
+                defaultService: this.get<string>('proxy.defaultService') || ''
+            }
         };
     }
 
-    async setFrontendPath(path: string): Promise<void> {
-        await this.config.update('frontend.path', path, vscode.ConfigurationTarget.Workspace);
-        this.refresh();
+    /**
+     * Writes the services list. Only the given fields are stored, defaults are filled in on read.
+     */
+    async setServices(services: ServiceEntry[]): Promise<void> {
+        await this.update('services', services);
     }
 
-    async setFrontendFramework(framework: string): Promise<void> {
-        await this.config.update('frontend.framework', framework, vscode.ConfigurationTarget.Workspace);
-        this.refresh();
+    async addService(service: ServiceEntry): Promise<void> {
+        const entries = this.getServiceEntries();
+        const name = ConfigurationProvider.createService(service).name;
+        if (entries.some(e => ConfigurationProvider.createService(e).name === name)) {
+            throw new Error(`A service named "${name}" already exists.`);
+        }
+        await this.setServices([...entries, service]);
     }
 
-    async setFrontendCustomCommand(command: string): Promise<void> {
-        await this.config.update('frontend.customCommand', command, vscode.ConfigurationTarget.Workspace);
-        this.refresh();
+    async updateService(name: string, changes: ServiceEntry): Promise<void> {
+        const entries = this.getServiceEntries();
+        const names = entries.map(e => ConfigurationProvider.createService(e).name);
+        const index = names.indexOf(name);
+        if (index === -1) {
+            throw new Error(`Service "${name}" not found.`);
+        }
+        if (changes.name && changes.name !== name && names.includes(changes.name)) {
+            throw new Error(`A service named "${changes.name}" already exists.`);
+        }
+        // Nested settings such as healthCheck are merged so a change to one field keeps the others
+        const entry: Record<string, any> = { ...entries[index] };
+        for (const [key, value] of Object.entries(changes)) {
+            const current = entry[key];
+            const isObject = (v: unknown) => !!v && typeof v === 'object' && !Array.isArray(v);
+            entry[key] = isObject(value) && isObject(current) ? { ...current, ...(value as object) } : value;
+        }
+        entries[index] = entry as ServiceEntry;
+        if (changes.name && changes.name !== name) {
+            this.renameInEntries(entries, name, changes.name);
+        }
+        await this.setServices(entries);
+        if (changes.name && changes.name !== name) {
+            await this.renameInSettings(name, changes.name);
+        }
     }
 
-    async setBackendPath(path: string): Promise<void> {
-        await this.config.update('backend.path', path, vscode.ConfigurationTarget.Workspace);
-        this.refresh();
+    /**
+     * Points dependsOn lists and ${port:<name>} env references of other services at a renamed service.
+     */
+    private renameInEntries(entries: ServiceEntry[], from: string, to: string): void {
+        const placeholder = new RegExp(`\\$\\{port:\\s*${from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\}`, 'g');
+        for (const entry of entries) {
+            if (entry.dependsOn?.includes(from)) {
+                entry.dependsOn = entry.dependsOn.map(dependency => dependency === from ? to : dependency);
+            }
+            if (entry.env) {
+                entry.env = Object.fromEntries(Object.entries(entry.env).map(([key, value]) => [key, value.replace(placeholder, `\${port:${to}}`)]));
+            }
+        }
     }
 
-    async setBackendFramework(framework: string): Promise<void> {
-        await this.config.update('backend.framework', framework, vscode.ConfigurationTarget.Workspace);
-        this.refresh();
+    /**
+     * Moves a renamed service's profile overrides and proxy routes to its new name.
+     */
+    private async renameInSettings(from: string, to: string): Promise<void> {
+        const profiles = this.get<Record<string, ProfileConfig>>('profiles');
+        if (profiles && Object.values(profiles).some(profile => profile && from in profile)) {
+            const renamed: Record<string, ProfileConfig> = {};
+            for (const [name, profile] of Object.entries(profiles)) {
+                renamed[name] = Object.fromEntries(Object.entries(profile || {}).map(([key, value]) => [key === from && key !== 'extends' ? to : key, value]));
+            }
+            await this.update('profiles', renamed);
+        }
+
+        const routes = this.get<Record<string, string>>('proxy.routes');
+        if (routes && Object.values(routes).includes(from)) {
+            await this.update('proxy.routes', Object.fromEntries(Object.entries(routes).map(([prefix, service]) => [prefix, service === from ? to : service])));
+        }
+        if (this.get<string>('proxy.defaultService') === from) {
+            await this.update('proxy.defaultService', to);
+        }
     }
 
-    async setBackendCustomCommand(command: string): Promise<void> {
-        await this.config.update('backend.customCommand', command, vscode.ConfigurationTarget.Workspace);
-        this.refresh();
+    async removeService(name: string): Promise<void> {
+        await this.setServices(this.getServiceEntries().filter(e => ConfigurationProvider.createService(e).name !== name));
     }
 
-    async setActiveProfile(profile: 'dev' | 'prod' | 'test'): Promise<void> {
-        await this.config.update('activeProfile', profile, vscode.ConfigurationTarget.Workspace);
-        this.refresh();
+    /**
+     * Switching profiles is each developer's choice, so it goes to the settings even when the repo
+     * file sets activeProfile; the repo value stays the team's default.
+     */
+    async setActiveProfile(profile: string): Promise<void> {
+        await this.updateSetting('activeProfile', profile);
     }
 
-    async setProfileCommand(profile: string, type: 'frontend' | 'backend', command: string): Promise<void> {
-        const profiles = JSON.parse(JSON.stringify(this.config.get<any>('profiles') || {
-            dev: { frontend: '', backend: '' },
-            prod: { frontend: '', backend: '' },
-            test: { frontend: '', backend: '' }
-        }));
+    async setProfileCommand(profile: string, serviceName: string, command: string): Promise<void> {
+        const profiles: Record<string, ProfileConfig> = JSON.parse(JSON.stringify(this.get('profiles') || DEFAULT_PROFILES));
         if (!profiles[profile]) {
-            profiles[profile] = { frontend: '', backend: '' };
+            profiles[profile] = {};
         }
-        profiles[profile][type] = command;
-        await this.config.update('profiles', profiles, vscode.ConfigurationTarget.Workspace);
-        this.refresh();
+        const current = profiles[profile][serviceName];
+        profiles[profile][serviceName] = current && typeof current === 'object' ? { ...current, command } : command;
+        await this.updateSetting('profiles', profiles);
     }
 
     async setUseDocker(use: boolean): Promise<void> {
-        await this.config.update('useDocker', use, vscode.ConfigurationTarget.Workspace);
-        this.refresh();
+        await this.updateSetting('useDocker', use);
     }
 
     async setAutoRestart(auto: boolean): Promise<void> {
-        await this.config.update('autoRestart', auto, vscode.ConfigurationTarget.Workspace);
+        await this.updateSetting('autoRestart', auto);
+    }
+
+    /**
+     * Path of the repo config file, if the project folder has one.
+     */
+    getRepoConfigFile(): string | undefined {
+        return this.getRepoConfig()?.file;
+    }
+
+    /**
+     * Writes the effective project settings to a repo config file and returns its path.
+     * Only settings that are set somewhere are written; services are kept as entered, without defaults.
+     */
+    async exportToRepoFile(format: 'json' | 'yaml'): Promise<string> {
+        const root = this.getRoot();
+        if (!root) {
+            throw new Error('No workspace folder open.');
+        }
+
+        const values: Record<string, any> = { services: this.getServiceEntries() };
+        for (const key of REPO_CONFIG_KEYS.filter(k => k !== 'services')) {
+            const inspected = this.config.inspect(key);
+            const value = this.get(key);
+            if (value !== undefined && (this.getRepoValue(key) !== undefined || inspected?.workspaceFolderValue !== undefined
+                || inspected?.workspaceValue !== undefined || inspected?.globalValue !== undefined)) {
+                ConfigurationProvider.setPath(values, key, value);
+            }
+        }
+
+        const file = path.join(root, format === 'json' ? REPO_CONFIG_FILES[0] : REPO_CONFIG_FILES[1]);
+        const content = format === 'json' ? JSON.stringify(values, null, 4) + '\n' : YAML.stringify(values);
+        await fs.promises.writeFile(file, content, 'utf8');
+        this.repoConfig = undefined;
+        return file;
+    }
+
+    /**
+     * Removes the repo config keys from workspace and folder settings, so the repo file takes effect.
+     */
+    async removeWorkspaceSettings(): Promise<void> {
+        for (const key of REPO_CONFIG_KEYS) {
+            const inspected = this.config.inspect(key);
+            if (inspected?.workspaceValue !== undefined) {
+                await this.config.update(key, undefined, vscode.ConfigurationTarget.Workspace);
+            }
+            if (vscode.workspace.workspaceFile && inspected?.workspaceFolderValue !== undefined) {
+                await this.config.update(key, undefined, vscode.ConfigurationTarget.WorkspaceFolder);
+            }
+        }
         this.refresh();
     }
 
 
+    /**
+     * Moves the old frontend/backend settings into the services list.
+     * Runs once per workspace; does nothing when services are already configured.
+     */
+    async migrateLegacyConfig(): Promise<boolean> {
+        this.refresh();
+        const configured = this.config.inspect<ServiceConfig[]>('services');
+        const local = configured?.workspaceFolderValue || configured?.workspaceValue;
+        if ((local && local.length > 0) || this.getRepoValue('services') !== undefined) {
+            return false;
+        }
+
+        const legacy = this.getLegacyServiceEntries();
+        if (legacy.length === 0) {
+            return false;
+        }
+
+        await this.setServices(legacy);
+        for (const key of [
+            'frontend.path', 'frontend.framework', 'frontend.customCommand',
+            'backend.path', 'backend.framework', 'backend.customCommand'
+        ]) {
+            // Cleared wherever they are set, or the next activation would migrate them again
+            const inspected = this.config.inspect(key);
+            if (inspected?.workspaceValue !== undefined) {
+                await this.config.update(key, undefined, vscode.ConfigurationTarget.Workspace);
+            }
+            if (vscode.workspace.workspaceFile && inspected?.workspaceFolderValue !== undefined) {
+                await this.config.update(key, undefined, vscode.ConfigurationTarget.WorkspaceFolder);
+            }
+        }
+        this.refresh();
+        return true;
+    }
 
     isConfigured(): boolean {
         const config = this.getConfig();
-        return config.frontend.path !== '' && config.backend.path !== '';
+        return config.services.length > 0 && config.services.every(s => s.path !== '');
+    }
+
+    /**
+     * Absolute folder for a service path. Relative paths are resolved against the project's folder,
+     * "${workspaceFolder:<name>}/..." against that root of a multi-root workspace.
+     */
+    static resolveServicePath(servicePath: string, root: string): string {
+        const match = /^\$\{workspaceFolder(?::([^}]+))?\}[\\/]?(.*)$/.exec(servicePath);
+        if (match) {
+            const folder = match[1] ? vscode.workspace.workspaceFolders?.find(f => f.name === match[1]) : undefined;
+            if (match[1] && !folder) return servicePath;
+            return path.join(folder?.uri.fsPath ?? root, match[2]);
+        }
+        return path.isAbsolute(servicePath) ? servicePath : path.join(root, servicePath);
+    }
+
+    /**
+     * How a folder is written as a service path: relative when it is inside the project's folder,
+     * "${workspaceFolder:<name>}/..." when it is in another workspace root, otherwise absolute.
+     */
+    getServicePath(folder: string): string {
+        const root = this.getRoot();
+        const relative = root ? path.relative(root, folder) : '..';
+        if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+            return relative || '.';
+        }
+
+        const other = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(folder));
+        if (other) {
+            const inOther = path.relative(other.uri.fsPath, folder).split(path.sep).join('/');
+            return `\${workspaceFolder:${other.name}}${inOther ? '/' + inOther : ''}`;
+        }
+        return folder;
+    }
+
+    /**
+     * Profiles that apply for the named profile, the ones it extends first. Stops at a missing
+     * or circular extends and reports it as error.
+     */
+    static getProfileChain(profiles: Record<string, ProfileConfig>, name: string): { chain: ProfileConfig[]; error?: string } {
+        const chain: ProfileConfig[] = [];
+        const seen: string[] = [];
+        let current: string | undefined = name;
+        while (current !== undefined) {
+            if (seen.includes(current)) {
+                return { chain, error: `Profile "${name}" extends itself: ${[...seen, current].join(' → ')}` };
+            }
+            const profile: ProfileConfig | undefined = profiles[current];
+            if (!profile) {
+                return { chain, error: `Profile "${current}" does not exist.` };
+            }
+            seen.push(current);
+            chain.unshift(profile);
+            current = profile.extends;
+        }
+        return { chain };
+    }
+
+    /**
+     * Applies profile overrides to a service: per profile, those for its type and then those for its name.
+     */
+    private static applyProfile(service: ServiceConfig, chain: ProfileConfig[], root: string): void {
+        for (const profile of chain) {
+            for (const key of [service.type, service.name]) {
+                const value = key === 'extends' ? undefined : profile[key];
+                const override: ServiceOverride = typeof value === 'string' ? { command: value || undefined } : value || {};
+                if (override.command) service.command = override.command;
+                if (override.cwd) {
+                    service.path = override.cwd;
+                    service.folder = ConfigurationProvider.resolveServicePath(override.cwd, root);
+                }
+                if (override.env) service.env = { ...service.env, ...override.env };
+                if (override.envFile) service.envFile = override.envFile;
+                if (override.port) service.port = override.port;
+                if (override.useDocker !== undefined) service.useDocker = override.useDocker;
+            }
+        }
+    }
+
+    /**
+     * Fills in defaults for a partially specified service.
+     */
+    static createService(service: ServiceEntry, root: string = ''): ServiceConfig {
+        const type = service.type || 'backend';
+        return {
+            name: service.name || (type === 'frontend' ? 'Frontend' : 'Backend'),
+            type: type,
+            path: service.path || '',
+            folder: ConfigurationProvider.resolveServicePath(service.path || '', root),
+            framework: service.framework || 'custom',
+            command: service.command || '',
+            port: service.port || undefined,
+            healthCheck: {
+                enabled: service.healthCheck?.enabled ?? true,
+                type: service.healthCheck?.type || 'http',
+                host: service.healthCheck?.host || 'localhost',
+                path: service.healthCheck?.path || '/',
+                expectedStatus: service.healthCheck?.expectedStatus || '200-399',
+                bodyPattern: service.healthCheck?.bodyPattern || '',
+                interval: service.healthCheck?.interval || 5000,
+                timeout: service.healthCheck?.timeout || 2000,
+                failureThreshold: service.healthCheck?.failureThreshold || 3,
+                startupTimeout: service.healthCheck?.startupTimeout || 60000
+            },
+            dependsOn: service.dependsOn || [],
+            readiness: {
+                type: service.readiness?.type || 'port',
+                path: service.readiness?.path || service.healthCheck?.path || '/',
+                pattern: service.readiness?.pattern || '',
+                timeout: service.readiness?.timeout || 60000
+            },
+            stopCommand: service.stopCommand || '',
+            stopGracePeriod: service.stopGracePeriod,
+            restart: {
+                policy: service.restart?.policy || 'never',
+                maxAttempts: service.restart?.maxAttempts ?? 3,
+                backoff: service.restart?.backoff ?? 2000,
+                backoffMultiplier: service.restart?.backoffMultiplier ?? 2,
+                maxBackoff: service.restart?.maxBackoff ?? 30000,
+                resetAfter: service.restart?.resetAfter ?? 60000
+            },
+            watch: {
+                include: service.watch?.include || [],
+                exclude: service.watch?.exclude || DEFAULT_WATCH_EXCLUDE,
+                debounce: service.watch?.debounce ?? 500
+            },
+            env: service.env || {},
+            mock: service.mock ?? false,
+            envFile: service.envFile || '',
+            useDocker: service.useDocker
+        };
+    }
+
+    /**
+     * Reads a setting by precedence: workspace folder and workspace settings, repo file, user settings, default.
+     */
+    private get<T>(key: string): T | undefined {
+        const inspected = this.config.inspect<T>(key);
+        return inspected?.workspaceFolderValue
+            ?? inspected?.workspaceValue
+            ?? (this.getRepoValue(key) as T | undefined)
+            ?? inspected?.globalValue
+            ?? inspected?.defaultValue;
+    }
+
+    /**
+     * Writes a setting where it is read from: the repo file when the folder has one and the
+     * settings don't override the key, otherwise workspace settings. In a multi-root workspace
+     * these are the folder's settings, so every root keeps its own project.
+     */
+    private async update(key: string, value: unknown): Promise<void> {
+        const repo = this.getRepoConfig();
+        const inspected = this.config.inspect(key);
+        if (repo && inspected?.workspaceFolderValue === undefined && inspected?.workspaceValue === undefined) {
+            const content = await fs.promises.readFile(repo.file, 'utf8');
+            if (repo.file.endsWith('.json')) {
+                const values = JSON.parse(content);
+                ConfigurationProvider.setPath(values, key, value);
+                await fs.promises.writeFile(repo.file, JSON.stringify(values, null, 4) + '\n', 'utf8');
+            } else {
+                // Editing the document keeps the file's comments and layout
+                const document = YAML.parseDocument(content);
+                document.setIn(key.split('.'), value);
+                await fs.promises.writeFile(repo.file, document.toString(), 'utf8');
+            }
+            this.repoConfig = undefined;
+        } else {
+            await this.config.update(key, value, this.getSettingsTarget());
+        }
+        this.refresh();
+    }
+
+    /**
+     * Writes a developer's own choice (profile, toggles, command overrides) to the settings, never
+     * to the committed repo file, which keeps the team's values.
+     */
+    private async updateSetting(key: string, value: unknown): Promise<void> {
+        await this.config.update(key, value, this.getSettingsTarget());
+        this.refresh();
+    }
+
+    /**
+     * The settings the project's own values are written to: the folder's in a multi-root workspace.
+     */
+    private getSettingsTarget(): vscode.ConfigurationTarget {
+        return vscode.workspace.workspaceFile ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace;
+    }
+
+    private getRepoValue(key: string): unknown {
+        return key.split('.').reduce<any>((value, part) => value?.[part], this.getRepoConfig()?.values);
+    }
+
+    /**
+     * Reads the first repo config file at the project folder's root. A file that doesn't parse is reported and ignored.
+     */
+    private getRepoConfig(): RepoConfig | undefined {
+        if (this.repoConfig !== undefined) return this.repoConfig || undefined;
+
+        this.repoConfig = null;
+        const root = this.getRoot();
+        const file = root && REPO_CONFIG_FILES.map(name => path.join(root, name)).find(f => fs.existsSync(f));
+        if (!file) return undefined;
+
+        try {
+            const content = fs.readFileSync(file, 'utf8');
+            const values = file.endsWith('.json') ? JSON.parse(content) : YAML.parse(content);
+            this.repoConfig = { file, values: values && typeof values === 'object' ? values : {} };
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Ignoring ${path.basename(file)}: ${error.message}`);
+        }
+        return this.repoConfig || undefined;
+    }
+
+    private static setPath(target: Record<string, any>, key: string, value: unknown): void {
+        const parts = key.split('.');
+        let current = target;
+        for (const part of parts.slice(0, -1)) {
+            current[part] = current[part] && typeof current[part] === 'object' ? current[part] : {};
+            current = current[part];
+        }
+        current[parts[parts.length - 1]] = value;
+    }
+
+    /**
+     * Returns the services as written in settings, falling back to the pre-services frontend/backend settings.
+     */
+    private getServiceEntries(): ServiceEntry[] {
+        const services = this.get<ServiceEntry[]>('services') || [];
+        return services.length > 0
+            ? JSON.parse(JSON.stringify(services))
+            : this.getLegacyServiceEntries();
+    }
+
+    /**
+     * Builds service entries from the pre-services frontend/backend settings.
+     */
+    private getLegacyServiceEntries(): ServiceEntry[] {
+        const services: ServiceEntry[] = [];
+        for (const type of ['frontend', 'backend'] as ServiceType[]) {
+            const folder = this.config.get<string>(`${type}.path`) || '';
+            if (!folder) continue;
+
+            const framework = this.config.get<string>(`${type}.framework`) || (type === 'frontend' ? 'react-vite' : 'express');
+            const customCommand = this.config.get<string>(`${type}.customCommand`) || '';
+            services.push({
+                name: type === 'frontend' ? 'Frontend' : 'Backend',
+                type: type,
+                path: folder,
+                framework: framework,
+                ...(framework === 'custom' && customCommand ? { command: customCommand } : {})
+            });
+        }
+        return services;
     }
 }
@@ -1,11 +1,50 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured context attached to a log entry. Written as key=value in text logs and as properties in JSON lines.
+ */
+export interface LogFields {
+    service?: string;
+    pid?: number;
+    port?: number;
+    profile?: string;
+    [key: string]: string | number | boolean | undefined;
+}
+
+const LEVELS: LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error'];
+
+// Sessions (one per window) whose log folders are kept
+const MAX_SESSIONS = 10;
+
+// How often buffered lines are written to disk
+const FLUSH_INTERVAL_MS = 1000;
+
+// Extension messages share one file, every other source is a service with its own
+const EXTENSION_SOURCES = ['SYSTEM', 'DASHBOARD'];
+const EXTENSION_LOG = 'project-starter';
 
 export class LogProvider {
     private static instance: LogProvider;
-    private outputChannel: vscode.OutputChannel;
+    private outputChannel: vscode.LogOutputChannel;
+    private logsDir: string | undefined;
+    private sessionDir: string | undefined;
+    private pending: Map<string, string[]> = new Map();
+    private flushTimer: NodeJS.Timeout | undefined;
+    private minLevel: LogLevel = 'info';
+    private jsonLines = false;
 
     private constructor() {
-        this.outputChannel = vscode.window.createOutputChannel('Project Starter Logs');
+        this.outputChannel = vscode.window.createOutputChannel('Project Starter Logs', { log: true });
+        this.readSettings();
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('projectStarter.logs')) {
+                this.readSettings();
+            }
+        });
     }
 
     public static getInstance(): LogProvider {
@@ -16,11 +55,42 @@ export class LogProvider {
     }
 
     /**
-     * Appends a line to the output channel with a timestamp and source tag.
+     * Starts writing log files for this session into a new folder under storageDir/logs.
+     * Older sessions beyond the last few are deleted.
      */
-    public log(source: string, message: string): void {
-        const timestamp = new Date().toLocaleTimeString();
-        this.outputChannel.appendLine(`[${timestamp}] [${source}] ${message}`);
+    public initialize(storageDir: string): void {
+        this.logsDir = path.join(storageDir, 'logs');
+        this.sessionDir = path.join(this.logsDir, new Date().toISOString().replace(/[:.]/g, '-'));
+
+        try {
+            fs.mkdirSync(this.sessionDir, { recursive: true });
+            for (const old of this.getSessions().slice(MAX_SESSIONS)) {
+                fs.rmSync(path.join(this.logsDir, old), { recursive: true, force: true });
+            }
+        } catch (error: any) {
+            this.sessionDir = undefined;
+            this.error('SYSTEM', `Could not create log folder: ${error.message}`);
+        }
+    }
+
+    public trace(source: string, message: string, fields?: LogFields): void {
+        this.write('trace', source, message, fields);
+    }
+
+    public debug(source: string, message: string, fields?: LogFields): void {
+        this.write('debug', source, message, fields);
+    }
+
+    public info(source: string, message: string, fields?: LogFields): void {
+        this.write('info', source, message, fields);
+    }
+
+    public warn(source: string, message: string, fields?: LogFields): void {
+        this.write('warn', source, message, fields);
+    }
+
+    public error(source: string, message: string, fields?: LogFields): void {
+        this.write('error', source, message, fields);
     }
 
     /**
@@ -38,7 +108,7 @@ export class LogProvider {
     }
 
     /**
-     * Clears the output channel.
+     * Clears the output channel. Log files are kept.
      */
     public clear(): void {
         this.outputChannel.clear();
@@ -52,9 +122,107 @@ export class LogProvider {
     }
 
     /**
-     * Disposes the output channel.
+     * Session folder names, newest first.
+     */
+    public getSessions(): string[] {
+        if (!this.logsDir || !fs.existsSync(this.logsDir)) return [];
+        return fs.readdirSync(this.logsDir, { withFileTypes: true })
+            .filter(entry => entry.isDirectory())
+            .map(entry => entry.name)
+            .sort()
+            .reverse();
+    }
+
+    /**
+     * Log files of the session before this one, or an empty list when there is none.
+     */
+    public getPreviousSessionFiles(): string[] {
+        const previous = this.getSessions().find(name => path.join(this.logsDir!, name) !== this.sessionDir);
+        if (!previous) return [];
+
+        const dir = path.join(this.logsDir!, previous);
+        return fs.readdirSync(dir).sort().map(file => path.join(dir, file));
+    }
+
+    /**
+     * Writes buffered lines to disk and disposes the output channel.
      */
     public dispose(): void {
+        this.flush();
         this.outputChannel.dispose();
     }
+
+    private readSettings(): void {
+        const config = vscode.workspace.getConfiguration('projectStarter');
+        const level = config.get<LogLevel>('logs.level') || 'info';
+        this.minLevel = LEVELS.includes(level) ? level : 'info';
+        this.jsonLines = config.get<string>('logs.format') === 'json';
+    }
+
+    private write(level: LogLevel, source: string, message: string, fields: LogFields = {}): void {
+        if (LEVELS.indexOf(level) < LEVELS.indexOf(this.minLevel)) return;
+
+        // The service is usually the source already, don't repeat it
+        const context = Object.entries(fields)
+            .filter(([key, value]) => value !== undefined && !(key === 'service' && value === source))
+            .map(([key, value]) => `${key}=${value}`)
+            .join(' ');
+        const text = `[${source}] ${message}${context ? ` (${context})` : ''}`;
+        this.outputChannel[level](text);
+
+        if (!this.sessionDir) return;
+        const line = this.jsonLines
+            ? JSON.stringify({ time: new Date().toISOString(), level, source, message, ...fields })
+            : `${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} ${text}`;
+
+        const service = fields.service || (EXTENSION_SOURCES.includes(source) ? undefined : source);
+        const file = service ? service.replace(/[^\w.-]+/g, '_') : EXTENSION_LOG;
+        const lines = this.pending.get(file) || [];
+        lines.push(line);
+        this.pending.set(file, lines);
+
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+        }
+    }
+
+    private flush(): void {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+        if (!this.sessionDir) return;
+
+        const config = vscode.workspace.getConfiguration('projectStarter');
+        const maxSize = (config.get<number>('logs.maxFileSize') ?? 5) * 1024 * 1024;
+        const maxFiles = Math.max(1, config.get<number>('logs.maxFiles') ?? 5);
+
+        for (const [name, lines] of this.pending) {
+            const file = path.join(this.sessionDir, `${name}.log`);
+            try {
+                fs.appendFileSync(file, lines.join('\n') + '\n');
+                if (fs.statSync(file).size >= maxSize) {
+                    LogProvider.rotate(file, maxFiles);
+                }
+            } catch {
+                // Losing a log file must never break the extension
+            }
+        }
+        this.pending.clear();
+    }
+
+    /**
+     * Shifts name.log to name.1.log, name.1.log to name.2.log and so on, keeping maxFiles files in total.
+     */
+    private static rotate(file: string, maxFiles: number): void {
+        const base = file.slice(0, -'.log'.length);
+        const rotated = (index: number) => index === 0 ? file : `${base}.${index}.log`;
+
+        fs.rmSync(rotated(maxFiles - 1), { force: true });
+        for (let index = maxFiles - 2; index >= 0; index--) {
+            if (fs.existsSync(rotated(index))) {
+                fs.renameSync(rotated(index), rotated(index + 1));
+            }
+        }
+    }
 }
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { spawn, ChildProcess } from 'child_process';
+
+/**
+ * A pseudoterminal that runs a single command as a child process.
+ * Output is rendered in the terminal and also streamed to the extension line by line.
+ */
+export class ProcessTerminal implements vscode.Pseudoterminal {
+    private static readonly ANSI_PATTERN = /\x1b\[[0-9;?]*[ -\/]*[@-~]|\x1b\][^\x07]*\x07/g;
+
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    private readonly closeEmitter = new vscode.EventEmitter<number | void>();
+    private readonly lineEmitter = new vscode.EventEmitter<string>();
+    private readonly exitEmitter = new vscode.EventEmitter<number | null>();
+
+    public readonly onDidWrite = this.writeEmitter.event;
+    public readonly onDidClose = this.closeEmitter.event;
+    public readonly onDidOutputLine = this.lineEmitter.event;
+    public readonly onDidExit = this.exitEmitter.event;
+
+    private child: ChildProcess | undefined;
+    private opened = false;
+    private pendingWrites: string[] = [];
+    private partialLine = '';
+    private inputLine = '';
+    private stopRequested = false;
+
+    constructor(private readonly cwd: string) { }
+
+    open(): void {
+        this.opened = true;
+        for (const data of this.pendingWrites) {
+            this.writeEmitter.fire(data);
+        }
+        this.pendingWrites = [];
+    }
+
+    close(): void {
+        // The user closed the terminal, take the process down with it
+        this.kill();
+    }
+
+    handleInput(data: string): void {
+        if (!this.child || !this.child.stdin) return;
+
+        if (data === '\x03') {
+            this.write('^C\r\n');
+            this.kill('SIGINT');
+            return;
+        }
+
+        for (const char of data) {
+            if (char === '\r') {
+                this.write('\r\n');
+                this.child.stdin.write(this.inputLine + '\n');
+                this.inputLine = '';
+            } else if (char === '\x7f') {
+                if (this.inputLine.length > 0) {
+                    this.inputLine = this.inputLine.slice(0, -1);
+                    this.write('\b \b');
+                }
+            } else {
+                this.inputLine += char;
+                this.write(char);
+            }
+        }
+    }
+
+    /**
+     * Spawns the command through the platform shell. env is added to the extension's environment.
+     */
+    public start(command: string, env: Record<string, string> = {}): void {
+        this.stopRequested = false;
+        this.write(`\x1b[90m> ${command}\x1b[0m\r\n`);
+
+        const child = spawn(command, {
+            cwd: this.cwd,
+            shell: true,
+            // A separate process group lets us signal the whole tree on POSIX
+            detached: process.platform !== 'win32',
+            env: { ...process.env, FORCE_COLOR: '1', ...env }
+        });
+        this.child = child;
+
+        child.stdout?.on('data', (chunk: Buffer) => this.handleOutput(chunk.toString()));
+        child.stderr?.on('data', (chunk: Buffer) => this.handleOutput(chunk.toString()));
+
+        let exited = false;
+        const finish = (code: number | null, reason: string) => {
+            if (exited) return;
+            exited = true;
+            this.flushPartialLine();
+            if (this.child === child) {
+                this.child = undefined;
+            }
+            this.write(`\r\n\x1b[90m[Process exited with ${reason}]\x1b[0m\r\n`);
+            this.exitEmitter.fire(code);
+        };
+
+        child.on('error', (err) => {
+            this.handleOutput(`Failed to start process: ${err.message}\n`);
+            // A process that could not be spawned never emits 'exit'
+            if (child.pid === undefined) {
+                finish(1, 'code 1');
+            }
+        });
+
+        child.on('exit', (code, signal) => {
+            finish(code, signal ? `signal ${signal}` : `code ${code}`);
+        });
+    }
+
+    /**
+     * Sends a signal to the running process (and its process group on POSIX).
+     */
+    public kill(signal: NodeJS.Signals = 'SIGTERM'): void {
+        if (!this.child || this.child.pid === undefined) return;
+        this.stopRequested = true;
+
+        try {
+            if (process.platform === 'win32') {
+                spawn('taskkill', ['/pid', String(this.child.pid), '/T', '/F']);
+            } else {
+                process.kill(-this.child.pid, signal);
+            }
+        } catch {
+            this.child.kill(signal);
+        }
+    }
+
+    /**
+     * Flags the upcoming exit as requested, for stop sequences that signal the process tree themselves.
+     */
+    public markStopping(): void {
+        this.stopRequested = true;
+    }
+
+    public isRunning(): boolean {
+        return this.child !== undefined;
+    }
+
+    /**
+     * Whether the last exit was caused by a kill request rather than the process itself.
+     */
+    public wasStopRequested(): boolean {
+        return this.stopRequested;
+    }
+
+    public getPid(): number | undefined {
+        return this.child?.pid;
+    }
+
+    public dispose(): void {
+        this.writeEmitter.dispose();
+        this.closeEmitter.dispose();
+        this.lineEmitter.dispose();
+        this.exitEmitter.dispose();
+    }
+
+    private handleOutput(text: string): void {
+        this.write(text.replace(/\r?\n/g, '\r\n'));
+
+        const lines = (this.partialLine + text).split(/\r?\n/);
+        this.partialLine = lines.pop() || '';
+        for (const line of lines) {
+            this.lineEmitter.fire(line.replace(ProcessTerminal.ANSI_PATTERN, ''));
+        }
+    }
+
+    private flushPartialLine(): void {
+        if (this.partialLine) {
+            this.lineEmitter.fire(this.partialLine.replace(ProcessTerminal.ANSI_PATTERN, ''));
+            this.partialLine = '';
+        }
+    }
+
+    private write(data: string): void {
+        if (this.opened) {
+            this.writeEmitter.fire(data);
+        } else {
+            this.pendingWrites.push(data);
+        }
+    }
+}
@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import { ConfigurationProvider, ServiceConfig } from './configurationProvider';
+import { TerminalProvider } from './terminalProvider';
+import { HealthChecker, HealthStatus, formatDuration } from '../utils/healthChecker';
+import { PortUtils } from '../utils/portUtils';
+import { ResourceMonitor } from '../utils/resourceMonitor';
+import { MockServer } from '../utils/mockServer';
+
+// How often uptimes in the tree are refreshed while something runs
+const UPTIME_REFRESH_MS = 30000;
+
+export class ServiceTreeItem extends vscode.TreeItem {
+    constructor(public readonly service: ServiceConfig, running: boolean, health: HealthStatus, uptime: number | undefined, hasError: boolean, mocked: boolean, recording: boolean) {
+        super(service.name, vscode.TreeItemCollapsibleState.None);
+
+        const port = PortUtils.getServicePort(service);
+        const parts = [running ? ServiceTreeItem.getStatusLabel(health) : 'Stopped', `:${port}`];
+        if (running && uptime !== undefined) {
+            parts.push(`up ${formatDuration(uptime)}`);
+        }
+        if (mocked) {
+            parts.push('mock');
+        }
+        if (recording) {
+            parts.push('recording');
+        }
+        this.description = parts.join(' · ');
+        const lines = [`**${service.name}** (${service.framework})`, service.path, `Port ${port}`];
+        if (running) {
+            const usage = ResourceMonitor.getInstance().getUsage(service.name);
+            lines.push(HealthChecker.getInstance().describe(service.name) || '', usage ? ResourceMonitor.describe(usage) : '');
+        }
+        this.tooltip = new vscode.MarkdownString(lines.filter(line => line).join('  \n'));
+        this.iconPath = ServiceTreeItem.getIcon(running, health);
+
+        // Menus match on these flags to decide which inline actions to show
+        this.contextValue = ['service', running ? 'running' : 'stopped', hasError ? 'hasError' : ''].filter(f => f).join('.');
+    }
+
+    private static getStatusLabel(health: HealthStatus): string {
+        switch (health) {
+            case HealthStatus.None:
+                return 'Running';
+            case HealthStatus.FailedToStart:
+                return 'Failed to start';
+            default:
+                return health;
+        }
+    }
+
+    private static getIcon(running: boolean, health: HealthStatus): vscode.ThemeIcon {
+        if (!running) {
+            return new vscode.ThemeIcon('circle-outline');
+        }
+        switch (health) {
+            case HealthStatus.Running:
+                return new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('testing.iconPassed'));
+            case HealthStatus.Crashed:
+            case HealthStatus.FailedToStart:
+                return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+            default:
+                return new vscode.ThemeIcon('sync~spin');
+        }
+    }
+}
+
+/**
+ * Lists the configured services with their live status in the Project Starter activity bar view.
+ */
+export class ServiceTreeProvider implements vscode.TreeDataProvider<ServiceTreeItem>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private health: Map<string, HealthStatus> = new Map();
+    private disposables: vscode.Disposable[] = [];
+    private timer: NodeJS.Timeout;
+
+    constructor(
+        private readonly configProvider: ConfigurationProvider,
+        private readonly terminalProvider: TerminalProvider
+    ) {
+        this.disposables.push(
+            this.changeEmitter,
+            terminalProvider.onDidChangeState(() => this.refresh()),
+            MockServer.getInstance().onDidChangeState(() => this.refresh()),
+            configProvider.onDidChange(() => this.refresh())
+        );
+
+        this.timer = setInterval(() => {
+            if (terminalProvider.hasRunningTerminals()) {
+                this.refresh();
+            }
+        }, UPTIME_REFRESH_MS);
+    }
+
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    public setHealth(name: string, status: HealthStatus): void {
+        if (this.health.get(name) !== status) {
+            this.health.set(name, status);
+            this.refresh();
+        }
+    }
+
+    public clearHealth(): void {
+        this.health.clear();
+        this.refresh();
+    }
+
+    getTreeItem(element: ServiceTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: ServiceTreeItem): ServiceTreeItem[] {
+        if (element) return [];
+
+        const mocks = MockServer.getInstance();
+        return this.configProvider.getConfig().services.map(service => new ServiceTreeItem(
+            service,
+            this.terminalProvider.isRunning(service.name) || mocks.isRunning(service.name),
+            this.health.get(service.name) || HealthStatus.None,
+            this.terminalProvider.getUptime(service.name),
+            this.terminalProvider.getLastErrorFor(service.name) !== undefined,
+            mocks.isRunning(service.name),
+            mocks.isRecording(service.name)
+        ));
+    }
+
+    dispose(): void {
+        clearInterval(this.timer);
+        this.disposables.forEach(d => d.dispose());
+    }
+}
@@ -1,114 +1,254 @@
 import * as vscode from 'vscode';
 import { LogProvider } from './logProvider';
 import { AIHelper } from '../utils/aiHelper';
+import { ProcessTerminal } from './processTerminal';
+import { ErrorDetector } from '../utils/errorMatchers';
+import { ProcessUtils } from '../utils/processUtils';
+import { PortUtils } from '../utils/portUtils';
+import { HealthChecker } from '../utils/healthChecker';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { RestartConfig } from './configurationProvider';
+
+const execPromise = promisify(exec);
 
 interface TerminalInfo {
     terminal: vscode.Terminal;
+    pty: ProcessTerminal;
+    detector: ErrorDetector;
     name: string;
+    cwd: string;
     type: 'frontend' | 'backend';
+    framework: string;
+    /** Subscriptions to the pty's events, released with the terminal. */
+    listeners: vscode.Disposable[];
+}
+
+// How much recent output to keep per terminal for error reports
+const OUTPUT_BUFFER_LIMIT = 8000;
+
+// How long to wait for processes to die after SIGKILL
+const KILL_WAIT_MS = 2000;
+
+export interface StopOptions {
+    /** Milliseconds between the polite stop and SIGKILL. */
+    gracePeriod: number;
+    stopCommand?: string;
+    /** Port checked after stopping. */
+    port?: number;
 }
 
+export interface StopReport {
+    name: string;
+    /** Whether the process tree had to be killed after the grace period. */
+    forced: boolean;
+    /** Processes that survived even SIGKILL. */
+    leftovers: { pid: number; name: string }[];
+    /** Whether the service port is free again, when a port was given. */
+    portFree?: boolean;
+}
+
+export interface RestartEvent {
+    time: number;
+    exitCode: number | null;
+    attempt: number;
+    /** Delay before the restart, in ms. */
+    delay: number;
+}
+
+// Restart events kept per service
+const RESTART_HISTORY_LIMIT = 20;
+
 export class TerminalProvider {
     private terminals: Map<string, TerminalInfo> = new Map();
     private lastError: string = '';
+    private lastErrorSource: string = '';
+    private lastErrors: Map<string, string> = new Map();
     private outputBuffer: Map<string, string> = new Map();
     private restartCounts: Map<string, number> = new Map();
-    private lastCommands: Map<string, { command: string, cwd: string, type: 'frontend' | 'backend' }> = new Map();
-    private autoRestartEnabled: boolean = false;
+    private lastCommands: Map<string, { command: string, env: Record<string, string>, cwd: string, type: 'frontend' | 'backend', framework: string }> = new Map();
+    private restartPolicies: Map<string, RestartConfig> = new Map();
+    private restartHistory: Map<string, RestartEvent[]> = new Map();
+    private startTimes: Map<string, number> = new Map();
+    private readonly outputLineEmitter = new vscode.EventEmitter<{ name: string; line: string }>();
+    private readonly stateEmitter = new vscode.EventEmitter<string>();
+
+    /**
+     * Fires for every line of output from any service terminal.
+     */
+    public readonly onDidOutputLine = this.outputLineEmitter.event;
+
+    /**
+     * Fires with the terminal name whenever a service starts, exits or is scheduled for restart.
+     */
+    public readonly onDidChangeState = this.stateEmitter.event;
 
     constructor() {
         // Listen for terminal close events
         vscode.window.onDidCloseTerminal((closedTerminal) => {
             for (const [key, info] of this.terminals.entries()) {
                 if (info.terminal === closedTerminal) {
-                    LogProvider.getInstance().log(info.type.toUpperCase(), `Terminal "${info.name}" closed.`);
+                    LogProvider.getInstance().debug(info.name, `Terminal "${info.name}" closed.`);
+                    this.release(info);
                     this.terminals.delete(key);
-
-                    // Check if we should auto-restart
-                    this.handlePotentialCrash(key);
                     break;
                 }
             }
         });
     }
 
-    public setAutoRestart(enabled: boolean) {
-        this.autoRestartEnabled = enabled;
+    /**
+     * Sets how a service is restarted after it exits on its own.
+     * Called whenever the user starts the service, so it also resets the attempt counter.
+     */
+    public setRestartPolicy(name: string, policy: RestartConfig) {
+        this.restartPolicies.set(name, policy);
+        this.restartCounts.delete(name);
     }
 
-    private async handlePotentialCrash(name: string) {
-        if (!this.autoRestartEnabled) return;
+    public getRestartHistory(name: string): RestartEvent[] {
+        return this.restartHistory.get(name) || [];
+    }
 
+    private scheduleRestart(name: string, exitCode: number | null) {
+        const policy = this.restartPolicies.get(name);
         const lastCmd = this.lastCommands.get(name);
-        if (!lastCmd) return;
+        if (!policy || !lastCmd) return;
 
         const count = this.restartCounts.get(name) || 0;
-        if (count >= 3) {
-            LogProvider.getInstance().log('SYSTEM', `Max restart attempts (3) reached for ${name}.`);
-            vscode.window.showErrorMessage(`Server ${name} crashed multiple times. Auto-restart disabled for this session.`);
+        if (count >= policy.maxAttempts) {
+            LogProvider.getInstance().error('SYSTEM', `Max restart attempts (${policy.maxAttempts}) reached for ${name}.`, { service: name });
+            vscode.window.showErrorMessage(`Server ${name} crashed ${count} times in a row. Auto-restart is paused until you start it again.`);
             return;
         }
 
-        const delay = (count + 1) * 2000;
-        LogProvider.getInstance().log('SYSTEM', `Server ${name} crashed. Restarting in ${delay / 1000}s... (Attempt ${count + 1}/3)`);
+        const delay = Math.min(policy.backoff * Math.pow(policy.backoffMultiplier, count), policy.maxBackoff);
+        LogProvider.getInstance().warn('SYSTEM', `Server ${name} exited with code ${exitCode}. Restarting in ${delay / 1000}s... (Attempt ${count + 1}/${policy.maxAttempts})`, { service: name });
 
         this.restartCounts.set(name, count + 1);
+        const history = [...this.getRestartHistory(name), { time: Date.now(), exitCode, attempt: count + 1, delay }];
+        this.restartHistory.set(name, history.slice(-RESTART_HISTORY_LIMIT));
+        HealthChecker.getInstance().resetToStarting(name, Date.now() + delay);
+        this.stateEmitter.fire(name);
 
         setTimeout(() => {
-            const terminal = this.createTerminal(name, lastCmd.cwd, lastCmd.type);
+            // The user may have stopped or restarted the service in the meantime
+            if (this.lastCommands.get(name) !== lastCmd || this.isRunning(name)) return;
+
+            const terminal = this.createTerminal(name, lastCmd.cwd, lastCmd.type, lastCmd.framework);
             terminal.show(true);
-            this.runCommand(name, lastCmd.command);
+            this.runCommand(name, lastCmd.command, lastCmd.env);
         }, delay);
     }
 
-    createTerminal(name: string, cwd: string, type: 'frontend' | 'backend'): vscode.Terminal {
+    createTerminal(name: string, cwd: string, type: 'frontend' | 'backend', framework: string = 'custom'): vscode.Terminal {
         // Close existing terminal with same name if exists
         const existing = this.terminals.get(name);
         if (existing) {
+            existing.pty.kill();
             existing.terminal.dispose();
+            this.release(existing);
             this.terminals.delete(name);
         }
 
+        const pty = new ProcessTerminal(cwd);
         const terminal = vscode.window.createTerminal({
             name: name,
-            cwd: cwd
+            pty: pty,
+            iconPath: new vscode.ThemeIcon(type === 'frontend' ? 'browser' : 'server')
         });
 
-        LogProvider.getInstance().log(type.toUpperCase(), `Created terminal "${name}" in ${cwd}`);
-        this.terminals.set(name, { terminal, name, type });
+        LogProvider.getInstance().debug(name, `Created terminal "${name}" in ${cwd}`);
+        const detector = new ErrorDetector(framework, (block, matcher) => {
+            LogProvider.getInstance().error(name, `${matcher.name} error detected`, { service: name });
+            this.showError(block, name);
+        });
+
+        const listeners = [
+            pty.onDidOutputLine(line => this.handleOutputLine(name, line)),
+            pty.onDidExit(code => this.handleExit(name, pty, code))
+        ];
+        this.terminals.set(name, { terminal, pty, detector, name, cwd, type, framework, listeners });
         this.outputBuffer.set(name, '');
+        this.lastErrors.delete(name);
 
         return terminal;
     }
 
-    runCommand(terminalName: string, command: string): void {
+    /**
+     * Drops a terminal's error detector, event subscriptions and pty once it is no longer used.
+     */
+    private release(info: TerminalInfo): void {
+        info.detector.dispose();
+        info.listeners.forEach(listener => listener.dispose());
+        info.pty.dispose();
+    }
+
+    runCommand(terminalName: string, command: string, env: Record<string, string> = {}): void {
         const info = this.terminals.get(terminalName);
         if (info) {
-            const cwd = (info.terminal.creationOptions as vscode.TerminalOptions).cwd as string;
-            this.lastCommands.set(terminalName, { command, cwd, type: info.type });
+            this.lastCommands.set(terminalName, { command, env, cwd: info.cwd, type: info.type, framework: info.framework });
 
             info.terminal.show();
-            info.terminal.sendText(command);
-            LogProvider.getInstance().log(info.type.toUpperCase(), `Running command: ${command}`);
-
-            // Set up error monitoring
-            this.monitorForErrors(terminalName);
+            info.pty.start(command, env);
+            this.startTimes.set(terminalName, Date.now());
+            LogProvider.getInstance().info(info.name, `Running command: ${command}`, { service: info.name, pid: info.pty.getPid() });
+            this.stateEmitter.fire(terminalName);
         }
     }
 
-    private monitorForErrors(terminalName: string): void {
-        // Since VS Code doesn't provide direct terminal output access,
-        // we'll use a workaround with shell integration if available
-        // For now, we'll provide a manual error capture mechanism
+    private handleOutputLine(terminalName: string, line: string): void {
+        const info = this.terminals.get(terminalName);
+        if (!info) return;
 
-        setTimeout(() => {
-            // Show notification asking user if there were any errors
-            this.showErrorCheckNotification(terminalName);
-        }, 5000);
+        LogProvider.getInstance().info(info.name, line);
+        info.detector.push(line);
+        this.outputLineEmitter.fire({ name: terminalName, line });
+
+        const buffer = (this.outputBuffer.get(terminalName) || '') + line + '\n';
+        this.outputBuffer.set(terminalName, buffer.slice(-OUTPUT_BUFFER_LIMIT));
+    }
+
+    private handleExit(terminalName: string, pty: ProcessTerminal, code: number | null): void {
+        const info = this.terminals.get(terminalName);
+        if (!info || info.pty !== pty) return;
+
+        info.detector.flush();
+        const uptime = Date.now() - (this.startTimes.get(terminalName) || Date.now());
+        this.startTimes.delete(terminalName);
+        LogProvider.getInstance()[code === 0 || pty.wasStopRequested() ? 'info' : 'warn'](info.name, `Process exited with code ${code} after ${Math.round(uptime / 1000)}s.`, { service: info.name, code: code ?? undefined });
+        this.stateEmitter.fire(terminalName);
+
+        // Exits we asked for (stop, terminal closed, Ctrl+C) are never restarted
+        if (pty.wasStopRequested()) return;
+
+        // A service that stayed up long enough has recovered, give it a fresh set of attempts
+        const policy = this.restartPolicies.get(terminalName);
+        if (policy && uptime >= policy.resetAfter) {
+            this.restartCounts.delete(terminalName);
+        }
+
+        // Prefer the error block a matcher already picked up over the raw output tail
+        if (code !== 0 && !this.lastErrors.has(terminalName)) {
+            const output = this.outputBuffer.get(terminalName) || '';
+            this.showError(output.trim() || `Process exited with code ${code}`, terminalName);
+        }
+
+        if (policy && (policy.policy === 'always' || (policy.policy === 'on-failure' && code !== 0))) {
+            this.scheduleRestart(terminalName, code);
+        }
+    }
+
+    /**
+     * Milliseconds since the service's current process was started, if it is running.
+     */
+    getUptime(name: string): number | undefined {
+        const startedAt = this.startTimes.get(name);
+        return startedAt === undefined ? undefined : Date.now() - startedAt;
     }
 
-    private showErrorCheckNotification(terminalName: string): void {
-        // This will be enhanced with the error capture button
+    getRecentOutput(terminalName: string): string {
+        return this.outputBuffer.get(terminalName) || '';
     }
 
     setLastError(error: string): void {
@@ -119,16 +259,25 @@ export class TerminalProvider {
         return this.lastError;
     }
 
-    async captureErrorFromClipboard(): Promise<void> {
-        const clipboardText = await vscode.env.clipboard.readText();
-        if (clipboardText) {
-            this.lastError = clipboardText;
-            vscode.window.showInformationMessage('Error captured! Use "Copy Last Error" to copy it again.');
-        }
+    /**
+     * Name of the terminal that produced the last error.
+     */
+    getLastErrorSource(): string {
+        return this.lastErrorSource;
     }
 
-    showError(error: string, source: 'frontend' | 'backend'): void {
+    getLastErrorFor(terminalName: string): string | undefined {
+        return this.lastErrors.get(terminalName);
+    }
+
+    showError(error: string, source: string): void {
+        // Dev servers tend to reprint the same error on every rebuild
+        if (this.lastErrors.get(source) === error) return;
+
         this.lastError = error;
+        this.lastErrorSource = source;
+        this.lastErrors.set(source, error);
+        this.stateEmitter.fire(source);
 
         vscode.window.showErrorMessage(
             `Error in ${source}: ${error.substring(0, 100)}...`,
@@ -156,22 +305,167 @@ export class TerminalProvider {
         const info = this.terminals.get(name);
         if (info) {
             this.lastCommands.delete(name); // Don't restart if manually disposed
+            info.pty.kill();
             info.terminal.dispose();
+            this.release(info);
             this.terminals.delete(name);
         }
     }
 
-    disposeAll(): void {
-        for (const [name, info] of this.terminals.entries()) {
+    /**
+     * Stops a service: stop command or SIGINT, then SIGTERM halfway through the grace period,
+     * then SIGKILL for whatever is left of the process tree. Reports what survived.
+     */
+    async stopService(name: string, options: StopOptions): Promise<StopReport> {
+        const logger = LogProvider.getInstance();
+        const report: StopReport = { name, forced: false, leftovers: [] };
+        const info = this.terminals.get(name);
+        this.lastCommands.delete(name); // Don't restart if manually stopped
+
+        if (info) {
+            info.detector.dispose();
+            const pid = info.pty.getPid();
+
+            if (pid !== undefined && info.pty.isRunning()) {
+                // Collect the tree before signalling; children get reparented once their parent dies
+                const tree = await ProcessUtils.getProcessTree(pid);
+                info.pty.markStopping();
+
+                if (options.stopCommand) {
+                    logger.info(name, `Running stop command: ${options.stopCommand}`, { service: name, pid });
+                    await execPromise(options.stopCommand, { cwd: info.cwd, timeout: options.gracePeriod })
+                        .catch((error: any) => logger.error(name, `Stop command failed: ${error.message}`, { service: name }));
+                } else {
+                    logger.debug(name, `Sending SIGINT to ${tree.length} process(es).`, { service: name, pid });
+                    await ProcessUtils.signalAll(tree, 'SIGINT');
+                }
+
+                let alive = await ProcessUtils.waitForExit(tree, options.gracePeriod / 2);
+                if (alive.length > 0) {
+                    logger.debug(name, `Sending SIGTERM to ${alive.length} process(es).`, { service: name, pid });
+                    await ProcessUtils.signalAll(alive, 'SIGTERM');
+                    alive = await ProcessUtils.waitForExit(alive, options.gracePeriod / 2);
+                }
+                if (alive.length > 0) {
+                    report.forced = true;
+                    logger.warn(name, `Grace period of ${options.gracePeriod / 1000}s expired, killing ${alive.length} process(es).`, { service: name, pid });
+                    await ProcessUtils.signalAll(alive, 'SIGKILL');
+                    alive = await ProcessUtils.waitForExit(alive, KILL_WAIT_MS);
+                }
+
+                report.leftovers = await Promise.all(alive.map(async leftover => ({
+                    pid: leftover,
+                    name: await ProcessUtils.getProcessName(leftover)
+                })));
+            }
+
             info.terminal.dispose();
+            this.release(info);
+            this.terminals.delete(name);
+            // The exit may not have been reported before the listeners went
+            this.startTimes.delete(name);
+            this.stateEmitter.fire(name);
+        }
+
+        if (options.port) {
+            report.portFree = await PortUtils.isPortAvailable(options.port);
         }
-        this.terminals.clear();
+        return report;
+    }
+
+    /**
+     * Stops a service and runs its last command again in a fresh terminal.
+     * Returns false when the service was stopped or its terminal closed.
+     */
+    async restartService(name: string, options: StopOptions): Promise<boolean> {
+        const lastCmd = this.lastCommands.get(name);
+        if (!lastCmd || !this.terminals.has(name)) return false;
+
+        await this.stopService(name, options);
+        this.restartCounts.delete(name);
+        // Same command and port as before, so only the startup phase starts over
+        HealthChecker.getInstance().resetToStarting(name);
+
+        const terminal = this.createTerminal(name, lastCmd.cwd, lastCmd.type, lastCmd.framework);
+        terminal.show(true);
+        this.runCommand(name, lastCmd.command, lastCmd.env);
+        return true;
+    }
+
+    /**
+     * Runs a one-off command (e.g. a dependency install) in its own terminal and resolves with its exit code.
+     * These terminals are not services: they are not restarted, stopped or checked for errors.
+     */
+    runTask(name: string, cwd: string, command: string): Promise<number | null> {
+        const pty = new ProcessTerminal(cwd);
+        const terminal = vscode.window.createTerminal({ name, pty, iconPath: new vscode.ThemeIcon('package') });
+        terminal.show();
+
+        return new Promise(resolve => {
+            pty.onDidExit(code => {
+                LogProvider.getInstance()[code === 0 ? 'info' : 'error']('SYSTEM', `${name} finished with code ${code}.`);
+                resolve(code);
+            });
+            pty.start(command);
+        });
+    }
+
+    /**
+     * Stops every running service with a short grace period.
+     */
+    async disposeAll(): Promise<void> {
+        await Promise.all(this.getActiveTerminals().map(name => this.stopService(name, { gracePeriod: 2000 })));
     }
 
     getActiveTerminals(): string[] {
         return Array.from(this.terminals.keys());
     }
 
+    /**
+     * Reveals a service's terminal. Returns false when it has none.
+     */
+    showTerminal(name: string): boolean {
+        const info = this.terminals.get(name);
+        if (!info) return false;
+        info.terminal.show();
+        return true;
+    }
+
+    /**
+     * Root pids of the services whose processes are alive, keyed by service name.
+     */
+    getRunningPids(): Map<string, number> {
+        const pids = new Map<string, number>();
+        for (const [name, info] of this.terminals) {
+            const pid = info.pty.getPid();
+            if (pid !== undefined && info.pty.isRunning()) {
+                pids.set(name, pid);
+            }
+        }
+        return pids;
+    }
+
+    /**
+     * Finds the service whose process tree contains the pid, i.e. whether the extension started it.
+     */
+    async findServiceByPid(pid: number): Promise<string | undefined> {
+        for (const [name, info] of this.terminals) {
+            const root = info.pty.getPid();
+            if (root !== undefined && info.pty.isRunning() && (await ProcessUtils.getProcessTree(root)).includes(pid)) {
+                return name;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Whether the service's process is currently alive.
+     */
+    isRunning(name: string): boolean {
+        const info = this.terminals.get(name);
+        return !!info && info.pty.isRunning();
+    }
+
     hasRunningTerminals(): boolean {
         return this.terminals.size > 0;
     }
@@ -0,0 +1,454 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import { ServiceEntry } from '../providers/configurationProvider';
+import { Detector } from './detector';
+import { PortDetector } from './portDetector';
+
+export type ImportSource = 'procfile' | 'scripts' | 'compose' | 'launch';
+
+/**
+ * A service proposed from a file that already describes how to run the project.
+ */
+export interface ImportedService {
+    kind: ImportSource;
+    /** File it was found in, e.g. "Procfile" or "docker-compose.yml". */
+    source: string;
+    service: ServiceEntry;
+}
+
+interface Proposal {
+    kind: ImportSource;
+    source: string;
+    service: ServiceEntry;
+    /** Folder whose files tell the framework, when it isn't the service folder. */
+    detectIn?: string;
+}
+
+/**
+ * The fields of a launch configuration an import uses, after ${workspaceFolder} is resolved.
+ */
+interface LaunchConfiguration {
+    type?: string;
+    cwd?: string;
+    program?: string;
+    module?: string;
+    args: string[];
+    runtimeExecutable?: string;
+    runtimeArgs: string[];
+    command?: string;
+    env: Record<string, string>;
+    envFile?: string;
+}
+
+const PROCFILES = ['Procfile', 'Procfile.dev'];
+const COMPOSE_FILES = ['compose.yaml', 'compose.yml', 'docker-compose.yaml', 'docker-compose.yml'];
+const LAUNCH_FILE = path.join('.vscode', 'launch.json');
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+// Launch configurations allow a single string where a list is expected
+function asStrings(value: unknown): string[] {
+    if (typeof value === 'string') return [value];
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+// concurrently options that take a value, so the value isn't mistaken for a command
+const CONCURRENTLY_VALUE_OPTIONS = [
+    '-n', '--names', '-c', '--prefix-colors', '-p', '--prefix', '-l', '--prefix-length', '-t', '--timestamp-format',
+    '-s', '--success', '-m', '--max-processes', '--restart-tries', '--restart-after', '--name-separator',
+    '--default-input-target', '--cwd'
+];
+
+/**
+ * Proposes services from what a project already uses to run itself: a Procfile, concurrently or
+ * npm-run-all scripts in the root package.json, a compose file and .vscode/launch.json.
+ */
+export class ConfigImporter {
+    /**
+     * Reads every source at the project root. Names are made unique across sources.
+     */
+    public static async importAll(root: string): Promise<ImportedService[]> {
+        const proposals = [
+            ...this.fromProcfiles(root),
+            ...this.fromPackageScripts(root),
+            ...this.fromCompose(root),
+            ...this.fromLaunchJson(root)
+        ];
+
+        const names = new Set<string>();
+        const imported: ImportedService[] = [];
+        for (const { kind, source, service, detectIn } of proposals) {
+            const base = service.name || kind;
+            let name = names.has(base) ? `${base}-${kind}` : base;
+            for (let i = 2; names.has(name); i++) {
+                name = `${base}-${kind}-${i}`;
+            }
+            names.add(name);
+
+            const folder = detectIn || path.resolve(root, service.path || '.');
+            const frontend = await Detector.detectFrontend(folder);
+            const backend = frontend ? null : await Detector.detectBackend(folder);
+            imported.push({
+                kind,
+                source,
+                service: {
+                    ...service,
+                    name,
+                    type: frontend ? 'frontend' : 'backend',
+                    framework: frontend || backend || 'custom'
+                }
+            });
+        }
+        return imported;
+    }
+
+    /**
+     * "name: command" lines of Procfile and Procfile.dev.
+     */
+    private static fromProcfiles(root: string): Proposal[] {
+        const proposals: Proposal[] = [];
+        for (const file of PROCFILES) {
+            const content = this.readText(path.join(root, file));
+            for (const line of content?.split(/\r?\n/) || []) {
+                const match = line.match(/^([\w-]+)\s*:\s*(.+)$/);
+                if (match) {
+                    proposals.push({ kind: 'procfile', source: file, service: this.fromCommandLine(match[1], match[2]) });
+                }
+            }
+        }
+        return proposals;
+    }
+
+    /**
+     * The commands of the root package.json script that runs several at once with concurrently or
+     * npm-run-all. The dev script is preferred, then start, then the first other one.
+     */
+    private static fromPackageScripts(root: string): Proposal[] {
+        const pkg = this.readJson(path.join(root, 'package.json'));
+        const scripts: Record<string, string> = {};
+        for (const [name, script] of Object.entries(isRecord(pkg) && isRecord(pkg.scripts) ? pkg.scripts : {})) {
+            if (typeof script === 'string') scripts[name] = script;
+        }
+        const names = Object.keys(scripts).sort((a, b) => this.scriptRank(a) - this.scriptRank(b));
+
+        for (const scriptName of names) {
+            const args = this.splitArgs(scripts[scriptName] || '');
+            const tool = args.findIndex(arg => /^(?:concurrently|npm-run-all|run-p|run-s)$/.test(arg));
+            if (tool === -1) continue;
+
+            const source = `package.json "${scriptName}" script`;
+            const toolArgs = args.slice(tool + 1);
+            const entries = args[tool] === 'concurrently'
+                ? this.parseConcurrently(toolArgs, scripts)
+                : this.parseNpmRunAll(toolArgs, scripts);
+            return entries.map(({ name, command }) => ({ kind: 'scripts', source, service: this.fromScript(name, command, scripts) }));
+        }
+        return [];
+    }
+
+    private static scriptRank(name: string): number {
+        return name === 'dev' ? 0 : name === 'start' ? 1 : 2;
+    }
+
+    /**
+     * Commands of a concurrently call, named by --names when given. "npm:dev:*" runs matching scripts.
+     */
+    private static parseConcurrently(args: string[], scripts: Record<string, string>): { name?: string; command: string }[] {
+        let names: string[] = [];
+        const commands: string[] = [];
+        for (let i = 0; i < args.length; i++) {
+            const [option, inlineValue] = args[i].split(/=(.*)/s);
+            if (CONCURRENTLY_VALUE_OPTIONS.includes(option)) {
+                const value = inlineValue ?? args[++i];
+                if (option === '-n' || option === '--names') names = (value || '').split(',');
+            } else if (!args[i].startsWith('-')) {
+                commands.push(args[i]);
+            }
+        }
+
+        const entries: { name?: string; command: string }[] = [];
+        commands.forEach((command, index) => {
+            const shorthand = command.match(/^(npm|yarn|pnpm):(\S+)(.*)$/);
+            if (!shorthand) {
+                entries.push({ name: names[index], command });
+                return;
+            }
+            const [, manager, pattern, rest] = shorthand;
+            const matching = this.matchScripts(pattern, scripts);
+            for (const script of matching) {
+                const run = manager === 'npm' ? `npm run ${script}` : `${manager} ${script}`;
+                entries.push({ name: matching.length === 1 ? names[index] || script : script, command: run + rest });
+            }
+        });
+        return entries;
+    }
+
+    /**
+     * Script names and patterns of an npm-run-all, run-p or run-s call.
+     */
+    private static parseNpmRunAll(args: string[], scripts: Record<string, string>): { name?: string; command: string }[] {
+        return args
+            .filter(arg => !arg.startsWith('-') && !/^\d+$/.test(arg))
+            .flatMap(pattern => this.matchScripts(pattern, scripts))
+            .map(script => ({ name: script, command: `npm run ${script}` }));
+    }
+
+    /**
+     * npm-run-all style globs: "*" matches within a ":" segment, "**" across them.
+     */
+    private static matchScripts(pattern: string, scripts: Record<string, string>): string[] {
+        if (!pattern.includes('*')) return [pattern];
+        const source = pattern.split('**').map(part => part.split('*').map(p => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^:]*')).join('.*');
+        const regex = new RegExp(`^${source}$`);
+        return Object.keys(scripts).filter(name => regex.test(name));
+    }
+
+    /**
+     * A command from a multi-command script. "npm run x" whose script only changes into a folder
+     * becomes the script's command in that folder; other scripts keep running through npm from the root.
+     */
+    private static fromScript(name: string | undefined, command: string, scripts: Record<string, string>): ServiceEntry {
+        const run = command.match(/^(?:npm\s+run(?:-script)?|yarn(?:\s+run)?|pnpm(?:\s+run)?)\s+([\w:.-]+)\s*$/);
+        const script = run && scripts[run[1]];
+        if (script) {
+            const inner = this.fromCommandLine(name || run[1], script);
+            if (inner.path !== '.') return inner;
+            return { name: name || run[1], path: '.', command, ...(inner.port ? { port: inner.port } : {}) };
+        }
+        return this.fromCommandLine(name || this.nameFromCommand(command), command);
+    }
+
+    /**
+     * Splits a command line into the folder it runs in ("cd web && ...", "npm --prefix web ..."),
+     * leading VAR=value assignments and the command itself.
+     */
+    private static fromCommandLine(name: string, commandLine: string): ServiceEntry {
+        let command = commandLine.trim();
+        let folder = '.';
+        const env: Record<string, string> = {};
+
+        const cd = command.match(/^cd\s+("[^"]+"|'[^']+'|\S+)\s*&&\s*(.+)$/s);
+        if (cd) {
+            folder = this.unquote(cd[1]);
+            command = cd[2].trim();
+        }
+
+        let assignment: RegExpMatchArray | null;
+        while ((assignment = command.match(/^(\w+)=("[^"]*"|'[^']*'|\S*)\s+(.+)$/s))) {
+            env[assignment[1]] = this.unquote(assignment[2]);
+            command = assignment[3];
+        }
+
+        const prefix = /^(?:npm|yarn|pnpm)\b/.test(command) && command.match(/\s(?:--prefix|--cwd|--dir|-C)(?:=|\s+)("[^"]+"|'[^']+'|\S+)/);
+        if (prefix) {
+            folder = path.join(folder, this.unquote(prefix[1]));
+            command = command.replace(prefix[0], '');
+        }
+
+        const port = /^\d+$/.test(env.PORT || '') ? parseInt(env.PORT, 10) : PortDetector.fromCommand(command, 'command')?.port;
+        return {
+            name,
+            path: path.normalize(folder),
+            command,
+            ...(port ? { port } : {}),
+            ...(Object.keys(env).length > 0 ? { env } : {})
+        };
+    }
+
+    /**
+     * Compose services, started with docker-compose from the root. Their environment stays in the compose
+     * file, since it is passed to the container rather than the compose command.
+     */
+    private static fromCompose(root: string): Proposal[] {
+        const file = COMPOSE_FILES.find(name => fs.existsSync(path.join(root, name)));
+        if (!file) return [];
+
+        let compose: unknown;
+        try {
+            compose = YAML.parse(this.readText(path.join(root, file)) || '');
+        } catch {
+            return [];
+        }
+
+        const services = isRecord(compose) && isRecord(compose.services) ? compose.services : {};
+        return Object.entries(services).map(([name, value]) => {
+            const definition = isRecord(value) ? value : {};
+            const build = definition.build;
+            const context = typeof build === 'string' ? build : isRecord(build) ? asString(build.context) : undefined;
+            const ports = Array.isArray(definition.ports) ? definition.ports : [];
+            const port = ports.map(mapping => this.composeHostPort(mapping)).find(published => published !== undefined);
+            const service: ServiceEntry = {
+                name,
+                path: '.',
+                command: `docker-compose up ${name}`,
+                ...(port ? { port } : {}),
+                // Databases and brokers pulled as images don't answer HTTP
+                ...(!context ? { healthCheck: { type: 'tcp' as const } } : {})
+            };
+            return { kind: 'compose' as const, source: file, service, detectIn: context ? path.resolve(root, context) : undefined };
+        });
+    }
+
+    /**
+     * Host port of a compose port mapping: "3000:3000", "127.0.0.1:8080:80" or { published: 8080 }.
+     * Container-only mappings such as "80" or { target: 80 } publish on a random host port and give undefined.
+     */
+    private static composeHostPort(mapping: unknown): number | undefined {
+        if (isRecord(mapping)) {
+            const published = parseInt(String(mapping.published ?? ''), 10);
+            return isNaN(published) ? undefined : published;
+        }
+        const parts = String(mapping ?? '').split('/')[0].split(':');
+        if (parts.length < 2) return undefined;
+        const port = parseInt(parts[parts.length - 2], 10);
+        return isNaN(port) ? undefined : port;
+    }
+
+    /**
+     * Node and Python launch configurations. Configurations using variables other than
+     * ${workspaceFolder} (e.g. ${file} or inputs) can't be run outside the debugger and are skipped.
+     */
+    private static fromLaunchJson(root: string): Proposal[] {
+        const content = this.readText(path.join(root, LAUNCH_FILE));
+        if (!content) return [];
+
+        let launch: unknown;
+        try {
+            launch = this.parseJsonc(content);
+        } catch {
+            return [];
+        }
+
+        const proposals: Proposal[] = [];
+        const configurations: unknown[] = isRecord(launch) && Array.isArray(launch.configurations) ? launch.configurations : [];
+        for (const config of configurations) {
+            if (!isRecord(config) || config.request !== 'launch' || typeof config.name !== 'string') continue;
+
+            const resolved = this.resolveVariables(config, root);
+            if (!resolved) continue;
+
+            const folder = resolved.cwd ? path.resolve(root, resolved.cwd) : root;
+            const args = resolved.args;
+            const relative = (file: string) => path.relative(folder, path.resolve(folder, file)) || '.';
+            let command: string | undefined;
+            const type = resolved.type || '';
+            if (['node', 'pwa-node'].includes(type)) {
+                const runtime = resolved.runtimeExecutable || 'node';
+                command = [runtime, ...resolved.runtimeArgs, ...(resolved.program ? [relative(resolved.program)] : []), ...args].join(' ');
+                if (!resolved.program && !resolved.runtimeExecutable) command = undefined;
+            } else if (type === 'node-terminal') {
+                command = resolved.command;
+            } else if (['python', 'debugpy'].includes(type)) {
+                const target = resolved.module ? ['-m', resolved.module] : resolved.program ? [relative(resolved.program)] : [];
+                command = target.length > 0 ? ['python', ...target, ...args].join(' ') : undefined;
+            }
+            if (!command) continue;
+
+            const env = resolved.env;
+            const port = /^\d+$/.test(String(env.PORT ?? '')) ? parseInt(env.PORT, 10) : PortDetector.fromCommand(command, 'command')?.port;
+            proposals.push({
+                kind: 'launch',
+                source: LAUNCH_FILE.split(path.sep).join('/'),
+                service: {
+                    name: config.name,
+                    path: path.relative(root, folder) || '.',
+                    command,
+                    ...(port ? { port } : {}),
+                    ...(Object.keys(env).length > 0 ? { env } : {}),
+                    ...(resolved.envFile ? { envFile: path.relative(folder, path.resolve(folder, resolved.envFile)) } : {})
+                }
+            });
+        }
+        return proposals;
+    }
+
+    /**
+     * Replaces ${workspaceFolder} in every string of a launch configuration. Returns undefined when other variables remain.
+     */
+    private static resolveVariables(config: Record<string, unknown>, root: string): LaunchConfiguration | undefined {
+        let unresolved = false;
+        const resolve = (value: unknown): unknown => {
+            if (typeof value === 'string') {
+                const replaced = value.replace(/\$\{(?:workspaceFolder|workspaceRoot)\}/g, root);
+                if (/\$\{[^}]+\}/.test(replaced)) unresolved = true;
+                return replaced;
+            }
+            if (Array.isArray(value)) return value.map(resolve);
+            if (value && typeof value === 'object') {
+                return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, resolve(v)]));
+            }
+            return value;
+        };
+        const { type, cwd, program, module, args, runtimeExecutable, runtimeArgs, command, env, envFile } = config;
+        const resolved = resolve({ type, cwd, program, module, args, runtimeExecutable, runtimeArgs, command, env, envFile });
+        if (unresolved || !isRecord(resolved)) return undefined;
+
+        const variables: Record<string, string> = {};
+        for (const [key, value] of Object.entries(isRecord(resolved.env) ? resolved.env : {})) {
+            if (value !== null && value !== undefined) variables[key] = String(value);
+        }
+        return {
+            type: asString(resolved.type),
+            cwd: asString(resolved.cwd),
+            program: asString(resolved.program),
+            module: asString(resolved.module),
+            args: asStrings(resolved.args),
+            runtimeExecutable: asString(resolved.runtimeExecutable),
+            runtimeArgs: asStrings(resolved.runtimeArgs),
+            command: asString(resolved.command),
+            env: variables,
+            envFile: asString(resolved.envFile)
+        };
+    }
+
+    private static nameFromCommand(command: string): string {
+        const words = command.split(/\s+/).filter(word => !word.startsWith('-'));
+        return words[words.length - 1]?.replace(/[^\w.-]+/g, '-') || 'service';
+    }
+
+    /**
+     * Splits a command line on whitespace outside quotes.
+     */
+    private static splitArgs(command: string): string[] {
+        return (command.match(/"(?:\\.|[^"\\])*"|'[^']*'|\S+/g) || []).map(arg => this.unquote(arg));
+    }
+
+    private static unquote(value: string): string {
+        if (/^"(?:\\.|[^"\\])*"$/.test(value)) return value.slice(1, -1).replace(/\\(.)/g, '$1');
+        if (/^'[^']*'$/.test(value)) return value.slice(1, -1);
+        return value;
+    }
+
+    /**
+     * Parses JSON with comments and trailing commas, as VS Code writes launch.json.
+     */
+    private static parseJsonc(content: string): unknown {
+        const withoutComments = content.replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, string) => string ?? '');
+        return JSON.parse(withoutComments.replace(/("(?:\\.|[^"\\])*")|,(\s*[}\]])/g, (match, string, close) => string ?? close));
+    }
+
+    private static readText(file: string): string | undefined {
+        try {
+            return fs.readFileSync(file, 'utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    private static readJson(file: string): unknown {
+        const content = this.readText(file);
+        if (!content) return undefined;
+        try {
+            return JSON.parse(content);
+        } catch {
+            return undefined;
+        }
+    }
+}
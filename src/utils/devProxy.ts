@@ -0,0 +1,439 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as net from 'net';
+import * as zlib from 'zlib';
+import { ProxyConfig, ServiceConfig } from '../providers/configurationProvider';
+import { LogProvider } from '../providers/logProvider';
+import { PortUtils } from './portUtils';
+
+interface Route {
+    prefix: string;
+    service: ServiceConfig;
+}
+
+/**
+ * A request that went through the proxy, or was replayed, with its response.
+ */
+export interface ProxyExchange {
+    id: number;
+    time: number;
+    service: string;
+    method: string;
+    url: string;
+    requestHeaders: http.IncomingHttpHeaders;
+    requestBody: string;
+    /** Whether only the start of the request body was kept, so it can't be replayed. */
+    requestTruncated?: boolean;
+    /** Whether the request body isn't text, so it can be replayed but not edited. */
+    requestBinary?: boolean;
+    status?: number;
+    responseHeaders?: http.IncomingHttpHeaders;
+    responseBody?: string;
+    /** Whether only the start of the response body was kept. */
+    responseTruncated?: boolean;
+    /** Milliseconds until the response was complete. */
+    duration?: number;
+    /** Why no response arrived. */
+    error?: string;
+    /** Id of the exchange this one replays. */
+    replayOf?: number;
+}
+
+/**
+ * A request to send again, possibly edited. Without a body the recorded bytes of replayOf are sent.
+ */
+export interface ReplayRequest {
+    service: string;
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+    replayOf?: number;
+}
+
+// Exchanges kept for the traffic inspector
+const MAX_EXCHANGES = 200;
+
+// Bytes of each body kept, the rest is still forwarded
+const MAX_BODY_BYTES = 32 * 1024;
+
+/**
+ * Collects the start of a stream for display while the stream is forwarded untouched.
+ */
+class BodyCapture {
+    private chunks: Buffer[] = [];
+    private captured = 0;
+    public total = 0;
+
+    get truncated(): boolean {
+        return this.total > this.captured;
+    }
+
+    /**
+     * The captured bytes as they were sent.
+     */
+    get raw(): Buffer {
+        return Buffer.concat(this.chunks);
+    }
+
+    add(chunk: Buffer): void {
+        this.total += chunk.length;
+        if (this.captured < MAX_BODY_BYTES) {
+            const part = chunk.subarray(0, MAX_BODY_BYTES - this.captured);
+            this.chunks.push(part);
+            this.captured += part.length;
+        }
+    }
+
+    /**
+     * The captured bytes as text, decompressed when needed. Binary content is only described.
+     */
+    toText(headers: http.IncomingHttpHeaders | http.OutgoingHttpHeaders): string {
+        if (this.total === 0) return '';
+        if (!BodyCapture.isTextType(headers)) {
+            return `[${this.total} bytes of ${headers['content-type']}]`;
+        }
+        const text = this.decode(headers);
+        if (text === undefined) {
+            return `[${this.total} bytes, could not decode ${headers['content-encoding']}]`;
+        }
+        return this.truncated ? `${text}\n… (truncated, ${this.total} bytes in total)` : text;
+    }
+
+    /**
+     * Whether the body is text that can be shown and edited.
+     */
+    isText(headers: http.IncomingHttpHeaders | http.OutgoingHttpHeaders): boolean {
+        return this.total === 0 || (BodyCapture.isTextType(headers) && this.decode(headers) !== undefined);
+    }
+
+    private static isTextType(headers: http.IncomingHttpHeaders | http.OutgoingHttpHeaders): boolean {
+        const type = String(headers['content-type'] || '');
+        return !type || /text|json|xml|javascript|x-www-form-urlencoded|graphql/i.test(type);
+    }
+
+    private decode(headers: http.IncomingHttpHeaders | http.OutgoingHttpHeaders): string | undefined {
+        let data = this.raw;
+        try {
+            // Sync flushes let a truncated stream decompress as far as it goes
+            switch (String(headers['content-encoding'] || '').toLowerCase()) {
+                case 'gzip':
+                    data = zlib.gunzipSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+                    break;
+                case 'deflate':
+                    data = zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+                    break;
+                case 'br':
+                    data = zlib.brotliDecompressSync(data, { finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH });
+                    break;
+            }
+        } catch {
+            return undefined;
+        }
+        return data.toString('utf8');
+    }
+}
+
+/**
+ * Local reverse proxy that serves frontend and backend from one origin: configured path prefixes
+ * go to their service, everything else to the frontend. Websocket upgrades are tunnelled as well.
+ * Target ports are looked up per request, so reassigned ports are followed.
+ */
+export class DevProxy {
+    private static instance: DevProxy;
+    private server: http.Server | undefined;
+    private sockets: Set<net.Socket> = new Set();
+    private port: number | undefined;
+    private services: ServiceConfig[] = [];
+    private exchanges: ProxyExchange[] = [];
+    // Complete request bodies as sent, for replays; dropped together with their exchange
+    private requestBodies = new WeakMap<ProxyExchange, Buffer>();
+    private nextId = 1;
+    private readonly stateEmitter = new vscode.EventEmitter<void>();
+    private readonly exchangeEmitter = new vscode.EventEmitter<ProxyExchange>();
+
+    /**
+     * Fires when the proxy starts or stops.
+     */
+    public readonly onDidChangeState = this.stateEmitter.event;
+
+    /**
+     * Fires when a request through the proxy, or a replay, has completed or failed.
+     */
+    public readonly onDidRecordExchange = this.exchangeEmitter.event;
+
+    private constructor() { }
+
+    public static getInstance(): DevProxy {
+        if (!DevProxy.instance) {
+            DevProxy.instance = new DevProxy();
+        }
+        return DevProxy.instance;
+    }
+
+    /**
+     * The proxy's address while it runs, the app's entry point.
+     */
+    public getUrl(): string | undefined {
+        return this.port === undefined ? undefined : `http://localhost:${this.port}`;
+    }
+
+    /**
+     * Starts listening, replacing a proxy that is already running. Rejects when the port is taken
+     * or the routes point at services that don't exist.
+     */
+    public async start(config: ProxyConfig, services: ServiceConfig[]): Promise<void> {
+        await this.stop();
+
+        const routes = DevProxy.resolveRoutes(config, services);
+        const fallback = services.find(s => s.name === config.defaultService)
+            || services.find(s => s.type === 'frontend');
+        if (!fallback) {
+            throw new Error(config.defaultService
+                ? `Proxy default service "${config.defaultService}" not found.`
+                : 'The proxy needs a frontend service or proxy.defaultService.');
+        }
+        const target = (url: string) => routes.find(route => DevProxy.matches(url, route.prefix))?.service || fallback;
+
+        const server = http.createServer((req, res) => this.forward(req, res, target(req.url || '/')));
+        server.on('upgrade', (req, socket: net.Socket, head: Buffer) => this.tunnel(req, socket, head, target(req.url || '/')));
+        server.on('connection', (socket) => {
+            this.sockets.add(socket);
+            socket.on('close', () => this.sockets.delete(socket));
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', (error: NodeJS.ErrnoException) => reject(error.code === 'EADDRINUSE'
+                ? new Error(`Proxy port ${config.port} is already in use.`)
+                : error));
+            // Loopback only, so nobody else on the network can reach the services or end up in recordings
+            server.listen(config.port, '127.0.0.1', resolve);
+        });
+
+        this.server = server;
+        this.port = config.port;
+        this.services = services;
+        const summary = [...routes.map(route => `${route.prefix} → ${route.service.name}`), `/ → ${fallback.name}`].join(', ');
+        LogProvider.getInstance().info('SYSTEM', `Proxy listening on ${this.getUrl()}, local connections only (${summary})`, { port: config.port });
+        this.stateEmitter.fire();
+    }
+
+    public async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+
+        this.server = undefined;
+        this.port = undefined;
+        // Open keep-alive and websocket connections would keep close() waiting
+        for (const socket of this.sockets) {
+            socket.destroy();
+        }
+        this.sockets.clear();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        LogProvider.getInstance().info('SYSTEM', 'Proxy stopped.');
+        this.stateEmitter.fire();
+    }
+
+    /**
+     * Recent exchanges, oldest first.
+     */
+    public getExchanges(): ProxyExchange[] {
+        return [...this.exchanges];
+    }
+
+    public clearExchanges(): void {
+        this.exchanges = [];
+    }
+
+    /**
+     * Sends a request straight to a service, bypassing routing, and records it like proxied traffic.
+     * Edited bodies are sent as text; otherwise the original bytes are sent unchanged.
+     */
+    public replay(request: ReplayRequest): Promise<ProxyExchange> {
+        const service = this.services.find(s => s.name === request.service);
+        if (!service) {
+            return Promise.reject(new Error(`Service "${request.service}" is not behind the proxy.`));
+        }
+
+        // The body may have been edited, let Node compute its length
+        const headers: http.OutgoingHttpHeaders = { ...request.headers };
+        delete headers['content-length'];
+        delete headers['transfer-encoding'];
+
+        let body: Buffer;
+        if (request.body !== undefined) {
+            // The edited text is decoded, so it must not be announced as compressed
+            delete headers['content-encoding'];
+            body = Buffer.from(request.body, 'utf8');
+        } else {
+            const original = this.exchanges.find(e => e.id === request.replayOf);
+            const raw = original && this.requestBodies.get(original);
+            if (!raw) {
+                return Promise.reject(new Error(original?.requestTruncated
+                    ? 'The request body was too large to keep, so it can\'t be replayed.'
+                    : 'The original request is no longer available.'));
+            }
+            body = raw;
+        }
+
+        const exchange = this.createExchange(service, request.method, request.url, headers);
+        const capture = new BodyCapture();
+        capture.add(body);
+        this.captureRequest(exchange, capture, headers);
+        exchange.replayOf = request.replayOf;
+
+        return new Promise(resolve => {
+            const upstream = http.request({
+                host: 'localhost',
+                port: PortUtils.getServicePort(service),
+                method: request.method,
+                path: request.url,
+                headers
+            }, (res) => {
+                const body = new BodyCapture();
+                res.on('data', (chunk: Buffer) => body.add(chunk));
+                res.on('end', () => resolve(this.complete(exchange, res, body)));
+            });
+            upstream.on('error', (error) => resolve(this.fail(exchange, error)));
+            upstream.end(body);
+        });
+    }
+
+    /**
+     * Longest prefixes first, so /api/admin wins over /api.
+     */
+    private static resolveRoutes(config: ProxyConfig, services: ServiceConfig[]): Route[] {
+        return Object.entries(config.routes).map(([prefix, name]) => {
+            const service = name
+                ? services.find(s => s.name === name)
+                : services.find(s => s.type === 'backend');
+            if (!service) {
+                throw new Error(name
+                    ? `Proxy route ${prefix} points to unknown service "${name}".`
+                    : `Proxy route ${prefix} needs a backend service.`);
+            }
+            return { prefix: prefix.replace(/\/+$/, '') || '/', service };
+        }).sort((a, b) => b.prefix.length - a.prefix.length);
+    }
+
+    /**
+     * Whether a request path falls under a prefix: /api matches /api, /api/users and /api?x, not /apidocs.
+     */
+    private static matches(url: string, prefix: string): boolean {
+        if (prefix === '/') return true;
+        return url.startsWith(prefix) && (url.length === prefix.length || '/?#'.includes(url[prefix.length]));
+    }
+
+    private static forwardedHeaders(req: http.IncomingMessage): http.OutgoingHttpHeaders {
+        const forwardedFor = req.headers['x-forwarded-for'];
+        return {
+            ...req.headers,
+            'x-forwarded-for': [forwardedFor, req.socket.remoteAddress].filter(value => value).join(', '),
+            'x-forwarded-host': req.headers.host,
+            'x-forwarded-proto': 'http'
+        };
+    }
+
+    private forward(req: http.IncomingMessage, res: http.ServerResponse, service: ServiceConfig): void {
+        const port = PortUtils.getServicePort(service);
+        const headers = DevProxy.forwardedHeaders(req);
+        const exchange = this.createExchange(service, req.method || 'GET', req.url || '/', headers);
+        const requestBody = new BodyCapture();
+        req.on('data', (chunk: Buffer) => requestBody.add(chunk));
+        req.on('end', () => this.captureRequest(exchange, requestBody, headers));
+
+        const upstream = http.request({
+            host: 'localhost',
+            port,
+            method: req.method,
+            path: req.url,
+            headers
+        }, (upstreamRes) => {
+            res.writeHead(upstreamRes.statusCode || 502, upstreamRes.statusMessage, upstreamRes.headers);
+            const responseBody = new BodyCapture();
+            upstreamRes.on('data', (chunk: Buffer) => responseBody.add(chunk));
+            upstreamRes.on('end', () => this.complete(exchange, upstreamRes, responseBody));
+            upstreamRes.pipe(res);
+        });
+
+        upstream.on('error', (error) => {
+            this.fail(exchange, error);
+            LogProvider.getInstance().debug('SYSTEM', `Proxy request ${req.method} ${req.url} to ${service.name} failed: ${error.message}`, { service: service.name, port });
+            if (!res.headersSent) {
+                res.writeHead(502, { 'content-type': 'text/plain; charset=utf-8' });
+            }
+            res.end(`Project Starter proxy: ${service.name} on port ${port} is not reachable (${error.message}).`);
+        });
+        req.pipe(upstream);
+    }
+
+    private createExchange(service: ServiceConfig, method: string, url: string, headers: http.OutgoingHttpHeaders): ProxyExchange {
+        return {
+            id: this.nextId++,
+            time: Date.now(),
+            service: service.name,
+            method,
+            url,
+            requestHeaders: headers as http.IncomingHttpHeaders,
+            requestBody: ''
+        };
+    }
+
+    private captureRequest(exchange: ProxyExchange, body: BodyCapture, headers: http.OutgoingHttpHeaders): void {
+        exchange.requestBody = body.toText(headers);
+        exchange.requestTruncated = body.truncated;
+        exchange.requestBinary = !body.isText(headers);
+        if (!body.truncated) {
+            this.requestBodies.set(exchange, body.raw);
+        }
+    }
+
+    private complete(exchange: ProxyExchange, res: http.IncomingMessage, body: BodyCapture): ProxyExchange {
+        exchange.status = res.statusCode;
+        exchange.responseHeaders = res.headers;
+        exchange.responseBody = body.toText(res.headers);
+        exchange.responseTruncated = body.truncated;
+        return this.record(exchange);
+    }
+
+    private fail(exchange: ProxyExchange, error: Error): ProxyExchange {
+        exchange.error = error.message;
+        return this.record(exchange);
+    }
+
+    private record(exchange: ProxyExchange): ProxyExchange {
+        exchange.duration = Date.now() - exchange.time;
+        this.exchanges.push(exchange);
+        if (this.exchanges.length > MAX_EXCHANGES) {
+            this.exchanges.shift();
+        }
+        this.exchangeEmitter.fire(exchange);
+        return exchange;
+    }
+
+    /**
+     * Replays the upgrade request to the service and then pipes the raw sockets together.
+     */
+    private tunnel(req: http.IncomingMessage, socket: net.Socket, head: Buffer, service: ServiceConfig): void {
+        const port = PortUtils.getServicePort(service);
+        const upstream = net.connect(port, 'localhost', () => {
+            const headers = Object.entries(DevProxy.forwardedHeaders(req))
+                .flatMap(([key, value]) => Array.isArray(value) ? value.map(v => `${key}: ${v}`) : value === undefined ? [] : [`${key}: ${value}`]);
+            upstream.write([`${req.method} ${req.url} HTTP/${req.httpVersion}`, ...headers, '', ''].join('\r\n'));
+            if (head.length > 0) upstream.write(head);
+            upstream.pipe(socket);
+            socket.pipe(upstream);
+        });
+
+        this.sockets.add(upstream);
+        upstream.on('close', () => {
+            this.sockets.delete(upstream);
+            socket.destroy();
+        });
+        upstream.on('error', (error) => {
+            LogProvider.getInstance().debug('SYSTEM', `Proxy websocket ${req.url} to ${service.name} failed: ${error.message}`, { service: service.name, port });
+            socket.destroy();
+        });
+        socket.on('error', () => upstream.destroy());
+    }
+}
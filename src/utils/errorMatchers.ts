@@ -0,0 +1,206 @@
+export interface ErrorMatcher {
+    name: string;
+    /** Frameworks this matcher applies to, '*' for all of them. */
+    frameworks: string[];
+    /** Line that opens an error block. */
+    start: RegExp;
+    /** Lines that keep the block open. The first line that doesn't match closes it. */
+    continuation: RegExp;
+    /** Line that closes the block and is included in it. */
+    end?: RegExp;
+    /** Line that reopens a block right after its end line (blank lines aside), e.g. a chained exception. */
+    chain?: RegExp;
+    maxLines?: number;
+}
+
+const JS_FRAMEWORKS = ['react-vite', 'react-cra', 'vue', 'angular', 'nextjs', 'nuxt', 'svelte', 'express', 'nestjs', 'custom'];
+const PYTHON_FRAMEWORKS = ['django', 'flask', 'fastapi', 'custom'];
+
+// Indented lines, blank lines and stack frames
+const INDENTED = /^(\s+\S|\s*$)/;
+// A traceback ends with the first unindented line that isn't a chain header or another traceback:
+// the exception, whatever its name (ImproperlyConfigured, Http404, StopIteration...)
+const PYTHON_EXCEPTION = /^(?!During handling of the above exception|The above exception was the direct cause|Traceback \(most recent call last\):)\S/;
+const PYTHON_CHAINED = /^(During handling of the above exception|The above exception was the direct cause)/;
+// Uvicorn's own log lines (INFO: ...) follow errors without a traceback and aren't part of them
+const UVICORN_EXCEPTION = /^(?!(?:TRACE|DEBUG|INFO|WARNING|ERROR|CRITICAL):|During handling of the above exception|The above exception was the direct cause|Traceback \(most recent call last\):)\S/;
+
+export const ERROR_MATCHERS: ErrorMatcher[] = [
+    {
+        name: 'Vite',
+        frameworks: ['react-vite', 'vue', 'svelte', 'nuxt'],
+        start: /(\[vite\].*(error|Error)|error when starting dev server|✘ \[ERROR\])/,
+        continuation: INDENTED
+    },
+    {
+        name: 'Create React App',
+        frameworks: ['react-cra'],
+        start: /^Failed to compile\.?$/,
+        continuation: /.*/,
+        end: /^(webpack compiled with \d+ errors?|Search for the keywords to learn more)/,
+        maxLines: 40
+    },
+    {
+        name: 'Angular CLI',
+        frameworks: ['angular'],
+        start: /^(✘ \[ERROR\]|Error: .+:\d+:\d+ - error [A-Z]+\d+|ERROR in |An unhandled exception occurred)/,
+        continuation: INDENTED
+    },
+    {
+        name: 'Next.js',
+        frameworks: ['nextjs'],
+        start: /^\s*(⨯|error -|Error: )/,
+        continuation: /^(\s+\S|\s*\d+ \||\s*>|\s*\^)/
+    },
+    {
+        name: 'NestJS',
+        frameworks: ['nestjs'],
+        start: /\[Nest\].*\bERROR\b/,
+        continuation: /^\s+(at |\S)/
+    },
+    {
+        name: 'Python Traceback',
+        frameworks: PYTHON_FRAMEWORKS,
+        start: /^Traceback \(most recent call last\):/,
+        continuation: /^(\s+\S|\s*$|During handling of the above exception|The above exception was the direct cause|Traceback \(most recent call last\):)/,
+        end: PYTHON_EXCEPTION,
+        chain: PYTHON_CHAINED,
+        maxLines: 200
+    },
+    {
+        name: 'Django',
+        frameworks: ['django'],
+        start: /^(CommandError: |django\.core\.exceptions\.\w+: |Error: That port is already in use)/,
+        continuation: INDENTED
+    },
+    {
+        name: 'Flask',
+        frameworks: ['flask'],
+        start: /^Error: (Could not locate a Flask application|While importing|Could not import|No such command)/,
+        continuation: INDENTED
+    },
+    {
+        name: 'Uvicorn',
+        frameworks: ['fastapi'],
+        start: /^ERROR:\s+/,
+        continuation: /^(\s+\S|Traceback \(most recent call last\):|During handling of the above exception)/,
+        end: UVICORN_EXCEPTION,
+        chain: PYTHON_CHAINED,
+        maxLines: 200
+    },
+    {
+        name: 'Spring Boot',
+        frameworks: ['spring-boot'],
+        start: /(\sERROR \d+ ---|^([\w$]+\.)+[\w$]*(Exception|Error)(: |$))/,
+        continuation: /^(\s+at |\s+\.\.\. \d+ (more|common frames omitted)|Caused by: |\t)/
+    },
+    {
+        name: 'Spring Boot Startup Failure',
+        frameworks: ['spring-boot'],
+        start: /^APPLICATION FAILED TO START$/,
+        continuation: /.*/,
+        maxLines: 20
+    },
+    {
+        name: 'Node.js',
+        frameworks: JS_FRAMEWORKS,
+        start: /^(Uncaught )?([\w$]*Error|node:internal\/[\w/]+:\d+)( \[[\w_]+\])?: /,
+        continuation: /^(\s+at |\s+\S|\s*\{|\s*\}|\s+\w+: )/
+    },
+    {
+        name: 'Port In Use',
+        frameworks: ['*'],
+        start: /EADDRINUSE|Address already in use|Port \d+ (is|was) already in use/i,
+        continuation: /^\s+(at |\S)/
+    }
+];
+
+// How long a block may stay open without new output before it is reported
+const IDLE_FLUSH_MS = 500;
+const DEFAULT_MAX_LINES = 60;
+
+/**
+ * Feeds service output through the matchers for a framework and reports complete error blocks.
+ */
+export class ErrorDetector {
+    private readonly matchers: ErrorMatcher[];
+    private active: { matcher: ErrorMatcher; lines: string[]; ended?: boolean } | undefined;
+    private flushTimer: NodeJS.Timeout | undefined;
+
+    constructor(
+        framework: string,
+        private readonly onError: (block: string, matcher: ErrorMatcher) => void
+    ) {
+        this.matchers = ERROR_MATCHERS.filter(m =>
+            m.frameworks.includes('*') || m.frameworks.includes(framework)
+        );
+    }
+
+    public push(line: string): void {
+        if (this.active) {
+            const { matcher, lines } = this.active;
+            if (this.active.ended) {
+                // The block ended, but a chained exception may still follow
+                if (/^\s*$/.test(line) || matcher.chain!.test(line)) {
+                    this.active.ended = !matcher.chain!.test(line);
+                    lines.push(line);
+                    this.scheduleFlush();
+                    return;
+                }
+            } else if (matcher.end && matcher.end.test(line)) {
+                lines.push(line);
+                if (matcher.chain) {
+                    this.active.ended = true;
+                    this.scheduleFlush();
+                } else {
+                    this.flush();
+                }
+                return;
+            } else if (matcher.continuation.test(line) && lines.length < (matcher.maxLines || DEFAULT_MAX_LINES)) {
+                lines.push(line);
+                this.scheduleFlush();
+                return;
+            }
+            this.flush();
+        }
+
+        const matcher = this.matchers.find(m => m.start.test(line));
+        if (matcher) {
+            this.active = { matcher, lines: [line] };
+            this.scheduleFlush();
+        }
+    }
+
+    /**
+     * Reports the open block, if any.
+     */
+    public flush(): void {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+        if (!this.active) return;
+
+        const { matcher, lines } = this.active;
+        this.active = undefined;
+
+        const block = lines.join('\n').trim();
+        if (block) {
+            this.onError(block, matcher);
+        }
+    }
+
+    public dispose(): void {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+        }
+        this.active = undefined;
+    }
+
+    private scheduleFlush(): void {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+        }
+        this.flushTimer = setTimeout(() => this.flush(), IDLE_FLUSH_MS);
+    }
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { WatchConfig } from '../providers/configurationProvider';
+import { LogProvider } from '../providers/logProvider';
+
+interface ServiceWatch {
+    watchers: vscode.FileSystemWatcher[];
+    timer?: NodeJS.Timeout;
+}
+
+/**
+ * Watches service folders and calls back, debounced, when matching files change.
+ * Used to restart servers that don't reload code on their own.
+ */
+export class FileWatcher {
+    private static instance: FileWatcher;
+    private watches: Map<string, ServiceWatch> = new Map();
+    private pauseCount = 0;
+
+    private constructor() { }
+
+    public static getInstance(): FileWatcher {
+        if (!FileWatcher.instance) {
+            FileWatcher.instance = new FileWatcher();
+        }
+        return FileWatcher.instance;
+    }
+
+    /**
+     * Starts watching a service folder, replacing any earlier watch for the service.
+     * onChange receives the path of the file that triggered it, relative to the folder.
+     */
+    public watch(name: string, folder: string, config: WatchConfig, onChange: (file: string) => void): void {
+        this.unwatch(name);
+        if (config.include.length === 0) return;
+
+        const excludes = config.exclude.map(glob => FileWatcher.globToRegExp(glob));
+        const entry: ServiceWatch = { watchers: [] };
+
+        const handle = (uri: vscode.Uri) => {
+            const file = path.relative(folder, uri.fsPath).split(path.sep).join('/');
+            if (this.isPaused() || excludes.some(pattern => pattern.test(file))) return;
+
+            // Wait for the burst of saves a formatter or git checkout produces to settle
+            if (entry.timer) clearTimeout(entry.timer);
+            entry.timer = setTimeout(() => {
+                entry.timer = undefined;
+                if (this.isPaused()) return;
+                LogProvider.getInstance().info(name, `File changed: ${file}. Restarting...`, { service: name, file });
+                onChange(file);
+            }, config.debounce);
+        };
+
+        for (const glob of config.include) {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, glob));
+            watcher.onDidChange(handle);
+            watcher.onDidCreate(handle);
+            watcher.onDidDelete(handle);
+            entry.watchers.push(watcher);
+        }
+
+        this.watches.set(name, entry);
+        LogProvider.getInstance().debug(name, `Watching ${config.include.join(', ')} for changes.`, { service: name });
+    }
+
+    public unwatch(name: string): void {
+        const entry = this.watches.get(name);
+        if (!entry) return;
+
+        if (entry.timer) clearTimeout(entry.timer);
+        entry.watchers.forEach(watcher => watcher.dispose());
+        this.watches.delete(name);
+    }
+
+    public unwatchAll(): void {
+        for (const name of Array.from(this.watches.keys())) {
+            this.unwatch(name);
+        }
+    }
+
+    /**
+     * Ignores file changes until the task settles, e.g. while dependencies are installed.
+     */
+    public async pauseWhile<T>(task: Promise<T>): Promise<T> {
+        this.pauseCount++;
+        try {
+            return await task;
+        } finally {
+            this.pauseCount--;
+        }
+    }
+
+    public isPaused(): boolean {
+        return this.pauseCount > 0;
+    }
+
+    /**
+     * Converts a glob with *, **, ? and {a,b} into a regular expression over /-separated paths.
+     */
+    private static globToRegExp(glob: string): RegExp {
+        let pattern = '';
+        let braces = 0;
+        for (let i = 0; i < glob.length; i++) {
+            const char = glob[i];
+            if (char === '*' && glob[i + 1] === '*') {
+                // **/ also matches no folder at all
+                if (glob[i + 2] === '/') {
+                    pattern += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    pattern += '.*';
+                    i++;
+                }
+            } else if (char === '*') {
+                pattern += '[^/]*';
+            } else if (char === '?') {
+                pattern += '[^/]';
+            } else if (char === '{') {
+                pattern += '(?:';
+                braces++;
+            } else if (char === '}' && braces > 0) {
+                pattern += ')';
+                braces--;
+            } else if (char === ',' && braces > 0) {
+                pattern += '|';
+            } else {
+                pattern += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+            }
+        }
+        return new RegExp(`^${pattern}$`);
+    }
+}
@@ -1,9 +1,38 @@
+import { ServiceConfig } from '../providers/configurationProvider';
+
 type FrameworkType = 'frontend' | 'backend';
 
 interface FrameworkCommand {
     [key: string]: string;
 }
 
+export interface FrameworkOption {
+    label: string;
+    value: string;
+    description: string;
+}
+
+export const FRONTEND_FRAMEWORKS: FrameworkOption[] = [
+    { label: 'React (Vite)', value: 'react-vite', description: 'npm run dev' },
+    { label: 'React (Create React App)', value: 'react-cra', description: 'npm start' },
+    { label: 'Vue', value: 'vue', description: 'npm run dev' },
+    { label: 'Angular', value: 'angular', description: 'ng serve' },
+    { label: 'Next.js', value: 'nextjs', description: 'npm run dev' },
+    { label: 'Nuxt', value: 'nuxt', description: 'npm run dev' },
+    { label: 'Svelte', value: 'svelte', description: 'npm run dev' },
+    { label: 'Custom Command', value: 'custom', description: 'Specify your own command' }
+];
+
+export const BACKEND_FRAMEWORKS: FrameworkOption[] = [
+    { label: 'Express', value: 'express', description: 'npm run dev or npm start' },
+    { label: 'NestJS', value: 'nestjs', description: 'npm run start:dev' },
+    { label: 'Django', value: 'django', description: 'python manage.py runserver' },
+    { label: 'Flask', value: 'flask', description: 'flask run' },
+    { label: 'FastAPI', value: 'fastapi', description: 'uvicorn main:app --reload' },
+    { label: 'Spring Boot', value: 'spring-boot', description: './mvnw spring-boot:run' },
+    { label: 'Custom Command', value: 'custom', description: 'Specify your own command' }
+];
+
 // Commands that work in PowerShell (Windows)
 const FRONTEND_COMMANDS: FrameworkCommand = {
     'react-vite': 'npm run dev',
@@ -37,6 +66,64 @@ export function getStartCommand(
     return commands[framework] || 'npm start';
 }
 
+/**
+ * Resolves the command a service is started with: its own command, else the framework default.
+ */
+export function getServiceCommand(service: ServiceConfig): string {
+    return service.command || getStartCommand(service.framework, service.type);
+}
+
+/**
+ * Rewrites a start command so the server listens on another port. A port already given on the
+ * command line is replaced, otherwise the framework's own flag is added. PORT is always set too,
+ * for servers that read it from the environment.
+ */
+export function applyPort(command: string, framework: string, port: number): { command: string; env: Record<string, string> } {
+    const env: Record<string, string> = { PORT: String(port) };
+
+    const replaced = command
+        .replace(/((?:^|\s)(?:--port|-p)(?:=|\s+))\d{2,5}\b/, `$1${port}`)
+        .replace(/(\brunserver\s+(?:[\w.\-\[\]]*:)?)\d{2,5}\b/, `$1${port}`)
+        .replace(/(\bserver\.port=)\d{2,5}\b/, `$1${port}`);
+    if (replaced !== command) {
+        return { command: replaced, env };
+    }
+
+    switch (framework) {
+        case 'react-vite':
+        case 'vue':
+        case 'svelte':
+        case 'angular':
+        case 'nextjs':
+        case 'nuxt':
+            return { command: appendArguments(command, `--port ${port}`), env };
+        case 'django':
+            return { command: command.replace(/\brunserver\b/, `runserver ${port}`), env };
+        case 'flask':
+            env.FLASK_RUN_PORT = String(port);
+            return { command: /\bflask\b.*\brun\b/.test(command) ? `${command} --port ${port}` : command, env };
+        case 'fastapi':
+            return { command: /\buvicorn\b/.test(command) ? `${command} --port ${port}` : command, env };
+        case 'spring-boot':
+            // Spring maps SERVER_PORT onto server.port
+            env.SERVER_PORT = String(port);
+            return { command, env };
+        default:
+            // CRA, Express, NestJS and custom servers conventionally read PORT
+            return { command, env };
+    }
+}
+
+/**
+ * Adds arguments to a command, passing them through npm's "--" separator for npm scripts.
+ */
+function appendArguments(command: string, args: string): string {
+    if (/^\s*npm\s/.test(command) && !/\s--(\s|$)/.test(command)) {
+        return `${command} -- ${args}`;
+    }
+    return `${command} ${args}`;
+}
+
 export function detectFramework(packageJsonPath: string): string | null {
     // This could be enhanced to read package.json and detect framework
     // For now, return null to let user select manually
@@ -1,21 +1,145 @@
 import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
 import * as vscode from 'vscode';
+import { HealthCheckConfig } from '../providers/configurationProvider';
+import { LogProvider } from '../providers/logProvider';
 
 export enum HealthStatus {
     Running = 'Running',
     Crashed = 'Crashed',
     Starting = 'Starting',
+    FailedToStart = 'FailedToStart',
     None = 'None'
 }
 
+export interface HealthTarget {
+    name: string;
+    port: number;
+    check: HealthCheckConfig;
+    /** When the service process was launched, defaults to when monitoring starts. */
+    startedAt?: number;
+}
+
+/**
+ * Outcome of a single health check.
+ */
+export interface ProbeResult {
+    healthy: boolean;
+    /** Milliseconds until the check completed or failed. */
+    latency: number;
+    statusCode?: number;
+    /** Why the check failed. */
+    error?: string;
+}
+
+/**
+ * One health check as kept in a service's history.
+ */
+export interface HealthRecord {
+    time: number;
+    /** Status after this check, taking the failure threshold into account. */
+    status: HealthStatus;
+    healthy: boolean;
+    latency: number;
+    statusCode?: number;
+}
+
+export interface HealthStats {
+    /** Share of healthy checks since the service first became healthy, 0-100. */
+    uptimePercent: number;
+    /** Milliseconds from launch to the first healthy check. */
+    timeToFirstHealthy?: number;
+    /** When the service last became healthy, if it still is. */
+    healthySince?: number;
+    averageLatency?: number;
+    /** Latencies of the most recent checks, oldest first. */
+    latencies: number[];
+}
+
+// Checks kept per service, about ten minutes at the default interval
+const HISTORY_LIMIT = 120;
+
+// Checks shown in latency sparklines
+const SPARKLINE_LENGTH = 20;
+
+/**
+ * Fixed-size buffer that overwrites its oldest entry once full.
+ */
+class RingBuffer<T> {
+    private items: T[] = [];
+    private next = 0;
+
+    constructor(private readonly capacity: number) { }
+
+    push(item: T): void {
+        if (this.items.length < this.capacity) {
+            this.items.push(item);
+        } else {
+            this.items[this.next] = item;
+        }
+        this.next = (this.next + 1) % this.capacity;
+    }
+
+    /**
+     * Entries from oldest to newest.
+     */
+    toArray(): T[] {
+        return this.items.length < this.capacity
+            ? [...this.items]
+            : [...this.items.slice(this.next), ...this.items.slice(0, this.next)];
+    }
+}
+
+interface TargetState {
+    target: HealthTarget;
+    timer: NodeJS.Timeout;
+    status: HealthStatus;
+    failures: number;
+    startedAt: number;
+    history: RingBuffer<HealthRecord>;
+    firstHealthyAt?: number;
+    healthySince?: number;
+}
+
+/**
+ * Formats a duration like "45s", "12m" or "2h 13m".
+ */
+export function formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    if (minutes < 1) return `${Math.floor(ms / 1000)}s`;
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Renders values as a line of block characters, e.g. "▁▂▅▃▇".
+ */
+export function sparkline(values: number[]): string {
+    const bars = '▁▂▃▄▅▆▇█';
+    const max = Math.max(...values, 1);
+    return values.map(value => bars[Math.min(bars.length - 1, Math.floor((value / max) * (bars.length - 1)))]).join('');
+}
+
 export class HealthChecker {
     private static instance: HealthChecker;
-    private interval: NodeJS.Timeout | undefined;
-    private statusCallback: (type: 'frontend' | 'backend', status: HealthStatus) => void;
+    private targets: Map<string, TargetState> = new Map();
+    // Targets of the last monitoring run, so their history can still be shown
+    private stopped: Map<string, TargetState> = new Map();
+    private readonly statusEmitter = new vscode.EventEmitter<{ name: string; status: HealthStatus }>();
+    private readonly checkEmitter = new vscode.EventEmitter<{ name: string; record: HealthRecord }>();
 
-    private constructor() {
-        this.statusCallback = () => { };
-    }
+    /**
+     * Fires when a service's health status changes.
+     */
+    public readonly onDidChangeStatus = this.statusEmitter.event;
+
+    /**
+     * Fires after every check, for views that show latency and history.
+     */
+    public readonly onDidCheck = this.checkEmitter.event;
+
+    private constructor() { }
 
     public static getInstance(): HealthChecker {
         if (!HealthChecker.instance) {
@@ -24,46 +148,245 @@ export class HealthChecker {
         return HealthChecker.instance;
     }
 
-    public onStatusChange(callback: (type: 'frontend' | 'backend', status: HealthStatus) => void) {
-        this.statusCallback = callback;
+    /**
+     * Checks every target on its own interval. A target stays Starting until its first successful
+     * check, or FailedToStart once startupTimeout passes without one. After that it is marked
+     * crashed only when failureThreshold checks in a row have failed.
+     */
+    public startMonitoring(targets: HealthTarget[]) {
+        this.stopMonitoring();
+        this.stopped.clear();
+
+        for (const target of targets) {
+            const state: TargetState = {
+                target,
+                // Initial check
+                timer: setTimeout(() => this.check(target, state), 0),
+                status: HealthStatus.Starting,
+                failures: 0,
+                startedAt: target.startedAt ?? Date.now(),
+                history: new RingBuffer<HealthRecord>(HISTORY_LIMIT)
+            };
+            this.targets.set(target.name, state);
+        }
     }
 
-    public startMonitoring(frontendPort: number, backendPort: number) {
-        this.stopMonitoring();
+    /**
+     * Stops checking. History stays available until monitoring starts again.
+     */
+    public stopMonitoring() {
+        for (const state of this.targets.values()) {
+            clearTimeout(state.timer);
+        }
+        this.stopped = new Map(this.targets);
+        this.targets.clear();
+    }
 
-        // Initial check
-        this.check(frontendPort, 'frontend');
-        this.check(backendPort, 'backend');
+    /**
+     * Puts a monitored service back into its startup phase, e.g. when it is about to be restarted.
+     * startsAt is when the new process launches; the startup timeout counts from then.
+     */
+    public resetToStarting(name: string, startsAt: number = Date.now()) {
+        const state = this.targets.get(name);
+        if (!state) return;
 
-        this.interval = setInterval(() => {
-            this.check(frontendPort, 'frontend');
-            this.check(backendPort, 'backend');
-        }, 5000);
+        state.startedAt = startsAt;
+        state.firstHealthyAt = undefined;
+        state.healthySince = undefined;
+        state.failures = 0;
+        if (state.status !== HealthStatus.Starting) {
+            state.status = HealthStatus.Starting;
+            this.statusEmitter.fire({ name, status: state.status });
+        }
     }
 
-    public stopMonitoring() {
-        if (this.interval) {
-            clearInterval(this.interval);
-            this.interval = undefined;
+    /**
+     * Points a monitored service's checks at the port it now runs on, e.g. after it was moved off a
+     * busy one, and checks it right away.
+     */
+    public updateTarget(name: string, port: number) {
+        const state = this.targets.get(name);
+        if (!state || state.target.port === port) return;
+
+        clearTimeout(state.timer);
+        // A new state, so a check still running against the old port is dropped
+        const target = { ...state.target, port };
+        const next: TargetState = { ...state, target, timer: setTimeout(() => this.check(target, next), 0) };
+        this.targets.set(name, next);
+    }
+
+    public getHistory(name: string): HealthRecord[] {
+        return this.getState(name)?.history.toArray() || [];
+    }
+
+    public getStats(name: string): HealthStats | undefined {
+        const state = this.getState(name);
+        const history = state?.history.toArray() || [];
+        if (!state || history.length === 0) return undefined;
+
+        // Failed checks while booting are expected and don't count against uptime
+        const afterStartup = history.filter(record => state.firstHealthyAt !== undefined && record.time >= state.firstHealthyAt);
+        const latencies = history.filter(record => record.healthy).map(record => record.latency);
+        return {
+            uptimePercent: afterStartup.length > 0
+                ? Math.round(afterStartup.filter(record => record.healthy).length / afterStartup.length * 1000) / 10
+                : 0,
+            timeToFirstHealthy: state.firstHealthyAt !== undefined ? state.firstHealthyAt - state.startedAt : undefined,
+            healthySince: state.healthySince,
+            averageLatency: latencies.length > 0 ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : undefined,
+            latencies: history.slice(-SPARKLINE_LENGTH).map(record => record.latency)
+        };
+    }
+
+    /**
+     * A Markdown summary for tooltips: time up, uptime and a latency sparkline.
+     */
+    public describe(name: string): string | undefined {
+        const stats = this.getStats(name);
+        if (!stats) return undefined;
+
+        const lines: string[] = [];
+        if (stats.healthySince !== undefined) {
+            lines.push(`Up for ${formatDuration(Date.now() - stats.healthySince)}`);
         }
+        lines.push(`Uptime: ${stats.uptimePercent}% of recent checks`);
+        if (stats.timeToFirstHealthy !== undefined) {
+            lines.push(`Healthy after: ${formatDuration(stats.timeToFirstHealthy)}`);
+        }
+        if (stats.averageLatency !== undefined) {
+            lines.push(`Latency: \`${sparkline(stats.latencies)}\` avg ${stats.averageLatency}ms`);
+        }
+        return lines.join('  \n');
     }
 
-    private async check(port: number, type: 'frontend' | 'backend') {
-        const isResponding = await this.ping(port);
-        this.statusCallback(type, isResponding ? HealthStatus.Running : HealthStatus.Crashed);
+    private getState(name: string): TargetState | undefined {
+        return this.targets.get(name) || this.stopped.get(name);
     }
 
-    private ping(port: number): Promise<boolean> {
+    /**
+     * Runs one health check against the port as configured: TCP connect, or an HTTP(S) GET
+     * whose status and body are matched against the expectations.
+     */
+    public static probe(port: number, check: HealthCheckConfig): Promise<ProbeResult> {
+        const startedAt = Date.now();
+        const result = (healthy: boolean, statusCode?: number, error?: string): ProbeResult =>
+            ({ healthy, latency: Date.now() - startedAt, statusCode, error });
+
+        if (check.type === 'tcp') {
+            return new Promise((resolve) => {
+                const socket = net.connect({ port, host: check.host });
+                socket.setTimeout(check.timeout);
+                socket.once('connect', () => {
+                    socket.destroy();
+                    resolve(result(true));
+                });
+                socket.once('timeout', () => {
+                    socket.destroy();
+                    resolve(result(false, undefined, 'Timed out'));
+                });
+                socket.once('error', (err) => resolve(result(false, undefined, err.message)));
+            });
+        }
+
         return new Promise((resolve) => {
-            const req = http.get(`http://localhost:${port}`, (res) => {
-                // If it responds with anything, it's considered alive
-                resolve(true);
+            const client = check.type === 'https' ? https : http;
+            const host = net.isIPv6(check.host) ? `[${check.host}]` : check.host;
+            const url = `${check.type}://${host}:${port}${check.path}`;
+
+            // Dev servers usually serve HTTPS with self-signed certificates
+            const req = client.get(url, { rejectUnauthorized: false }, (res) => {
+                const statusCode = res.statusCode || 0;
+                if (!HealthChecker.matchesStatus(statusCode, check.expectedStatus)) {
+                    res.resume();
+                    resolve(result(false, statusCode, `Unexpected status ${statusCode}`));
+                    return;
+                }
+                if (!check.bodyPattern) {
+                    res.resume();
+                    resolve(result(true, statusCode));
+                    return;
+                }
+
+                let body = '';
+                res.setEncoding('utf8');
+                res.on('data', (chunk: string) => body += chunk);
+                res.on('end', () => {
+                    try {
+                        const matches = new RegExp(check.bodyPattern).test(body);
+                        resolve(result(matches, statusCode, matches ? undefined : 'Body did not match'));
+                    } catch (err: any) {
+                        resolve(result(false, statusCode, `Invalid body pattern: ${err.message}`));
+                    }
+                });
+                res.on('error', (err) => resolve(result(false, statusCode, err.message)));
             });
-            req.on('error', () => resolve(false));
-            req.setTimeout(2000, () => {
+            req.on('error', (err) => resolve(result(false, undefined, err.message)));
+            req.setTimeout(check.timeout, () => {
                 req.destroy();
-                resolve(false);
+                resolve(result(false, undefined, 'Timed out'));
             });
         });
     }
+
+    /**
+     * Whether a status code is in a list like "200-299,304".
+     */
+    public static matchesStatus(statusCode: number, expected: string): boolean {
+        return expected.split(',').some(part => {
+            const [min, max] = part.split('-').map(value => parseInt(value.trim(), 10));
+            return max === undefined || isNaN(max)
+                ? statusCode === min
+                : statusCode >= min && statusCode <= max;
+        });
+    }
+
+    private async check(target: HealthTarget, state: TargetState) {
+        const result = await HealthChecker.probe(target.port, target.check);
+        // Monitoring was stopped or restarted while the check ran
+        if (this.targets.get(target.name) !== state) return;
+
+        state.failures = result.healthy ? 0 : state.failures + 1;
+        let status = state.status;
+        if (result.healthy) {
+            status = HealthStatus.Running;
+            if (state.firstHealthyAt === undefined) {
+                state.firstHealthyAt = Date.now();
+                LogProvider.getInstance().info(target.name, `Healthy after ${((state.firstHealthyAt - state.startedAt) / 1000).toFixed(1)}s`, {
+                    service: target.name,
+                    port: target.port,
+                    startupMs: state.firstHealthyAt - state.startedAt
+                });
+            }
+        } else if (state.firstHealthyAt === undefined) {
+            // Still booting, only give up once the startup timeout has passed
+            if (Date.now() - state.startedAt >= target.check.startupTimeout) {
+                status = HealthStatus.FailedToStart;
+                if (state.status !== status) {
+                    LogProvider.getInstance().error(target.name, `No successful health check within ${target.check.startupTimeout / 1000}s`, {
+                        service: target.name,
+                        port: target.port,
+                        error: result.error
+                    });
+                }
+            }
+        } else if (state.failures >= target.check.failureThreshold) {
+            status = HealthStatus.Crashed;
+        }
+
+        if (status === HealthStatus.Running && state.healthySince === undefined) {
+            state.healthySince = Date.now();
+        } else if (status !== HealthStatus.Running) {
+            state.healthySince = undefined;
+        }
+
+        const record: HealthRecord = { time: Date.now(), status, healthy: result.healthy, latency: result.latency, statusCode: result.statusCode };
+        state.history.push(record);
+        this.checkEmitter.fire({ name: target.name, record });
+
+        if (status !== state.status) {
+            state.status = status;
+            this.statusEmitter.fire({ name: target.name, status });
+        }
+        state.timer = setTimeout(() => this.check(target, state), target.check.interval);
+    }
 }
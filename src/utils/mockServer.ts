@@ -0,0 +1,265 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { ServiceConfig } from '../providers/configurationProvider';
+import { LogProvider } from '../providers/logProvider';
+import { DevProxy, ProxyExchange } from './devProxy';
+
+/**
+ * One canned response, as stored in .projectstarter/mocks/<service>/*.json. A file holds one mock or a list.
+ */
+export interface MockDefinition {
+    /** HTTP method, or "*" / omitted for any. */
+    method?: string;
+    /** Request path without query. ":name" matches one segment, a trailing "*" the rest. */
+    path: string;
+    status?: number;
+    headers?: Record<string, string>;
+    /** Sent as JSON unless it is a string. */
+    body?: unknown;
+    /** Milliseconds to wait before responding. */
+    delay?: number;
+}
+
+interface RunningMock {
+    server: http.Server;
+    service: ServiceConfig;
+    folder: string;
+}
+
+const MOCKS_FOLDER = path.join('.projectstarter', 'mocks');
+
+/**
+ * Serves recorded or hand-written JSON responses on a service's port in place of the real service,
+ * and records real responses passing through the dev proxy.
+ */
+export class MockServer {
+    private static instance: MockServer;
+    private running: Map<string, RunningMock> = new Map();
+    // Service name to the folder recordings are saved in
+    private recording: Map<string, string> = new Map();
+    private recordListener: vscode.Disposable | undefined;
+    private readonly stateEmitter = new vscode.EventEmitter<string>();
+
+    /**
+     * Fires with the service name when a mock starts or stops, or recording is toggled.
+     */
+    public readonly onDidChangeState = this.stateEmitter.event;
+
+    private constructor() { }
+
+    public static getInstance(): MockServer {
+        if (!MockServer.instance) {
+            MockServer.instance = new MockServer();
+        }
+        return MockServer.instance;
+    }
+
+    /**
+     * Folder holding a service's mocks in a project, e.g. <project folder>/.projectstarter/mocks/API.
+     */
+    public static getMocksFolder(root: string, serviceName: string): string {
+        return path.join(root, MOCKS_FOLDER, serviceName.replace(/[^\w.-]+/g, '_'));
+    }
+
+    public isRunning(name: string): boolean {
+        return this.running.has(name);
+    }
+
+    public getRunning(): string[] {
+        return [...this.running.keys()];
+    }
+
+    /**
+     * Serves the service's mocks from the project in root on the port. Mock files are read per request, so edits apply immediately.
+     */
+    public async start(service: ServiceConfig, port: number, root: string): Promise<void> {
+        await this.stop(service.name);
+
+        const folder = MockServer.getMocksFolder(root, service.name);
+        const server = http.createServer((req, res) => this.respond(service, folder, req, res));
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            // Loopback only, like the dev proxy
+            server.listen(port, '127.0.0.1', resolve);
+        });
+
+        this.running.set(service.name, { server, service, folder });
+        LogProvider.getInstance().info(service.name, `Serving mocks from ${folder}`, { service: service.name, port });
+        this.stateEmitter.fire(service.name);
+    }
+
+    public async stop(name: string): Promise<void> {
+        const mock = this.running.get(name);
+        if (!mock) return;
+
+        this.running.delete(name);
+        mock.server.closeAllConnections();
+        await new Promise<void>(resolve => mock.server.close(() => resolve()));
+        LogProvider.getInstance().info(name, 'Mock stopped.', { service: name });
+        this.stateEmitter.fire(name);
+    }
+
+    public async stopAll(): Promise<void> {
+        for (const name of this.getRunning()) {
+            await this.stop(name);
+        }
+    }
+
+    public isRecording(name: string): boolean {
+        return this.recording.has(name);
+    }
+
+    /**
+     * Starts or stops saving the service's JSON responses from proxied traffic as mocks of the project in root.
+     * Returns whether it is recording now.
+     */
+    public toggleRecording(name: string, root: string): boolean {
+        if (this.recording.has(name)) {
+            this.recording.delete(name);
+        } else {
+            this.recording.set(name, MockServer.getMocksFolder(root, name));
+        }
+
+        if (this.recording.size > 0 && !this.recordListener) {
+            this.recordListener = DevProxy.getInstance().onDidRecordExchange(exchange => this.record(exchange));
+        } else if (this.recording.size === 0 && this.recordListener) {
+            this.recordListener.dispose();
+            this.recordListener = undefined;
+        }
+        this.stateEmitter.fire(name);
+        return this.recording.has(name);
+    }
+
+    private respond(service: ServiceConfig, folder: string, req: http.IncomingMessage, res: http.ServerResponse): void {
+        const method = (req.method || 'GET').toUpperCase();
+        let pathname: string;
+        try {
+            pathname = new URL(req.url || '/', 'http://localhost').pathname;
+        } catch {
+            LogProvider.getInstance().warn(service.name, `Rejected malformed request URL ${req.url}`, { service: service.name });
+            this.send(res, 400, { 'content-type': 'application/json' }, { error: `Malformed request URL: ${req.url}` });
+            return;
+        }
+
+        // Frontends usually call the backend port directly. Local origins may send credentials, others get plain CORS
+        const origin = req.headers.origin;
+        if (origin && MockServer.isLocalOrigin(origin)) {
+            res.setHeader('access-control-allow-origin', origin);
+            res.setHeader('access-control-allow-credentials', 'true');
+            res.setHeader('vary', 'Origin');
+        } else {
+            res.setHeader('access-control-allow-origin', '*');
+        }
+        if (method === 'OPTIONS') {
+            res.writeHead(204, {
+                'access-control-allow-methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+                'access-control-allow-headers': req.headers['access-control-request-headers'] || '*'
+            });
+            res.end();
+            return;
+        }
+
+        const mock = this.findMock(service.name, folder, method, pathname);
+        if (!mock) {
+            // Keep health checks green when no mock covers the health path
+            if (method === 'GET' && pathname === service.healthCheck.path) {
+                this.send(res, 200, { 'content-type': 'application/json' }, { status: 'ok', mock: true });
+                return;
+            }
+            LogProvider.getInstance().warn(service.name, `No mock for ${method} ${pathname}`, { service: service.name });
+            this.send(res, 404, { 'content-type': 'application/json' }, { error: `No mock for ${method} ${pathname}`, folder });
+            return;
+        }
+
+        LogProvider.getInstance().debug(service.name, `Mocked ${method} ${pathname}`, { service: service.name, status: mock.status ?? 200 });
+        const headers = { 'content-type': typeof mock.body === 'string' ? 'text/plain; charset=utf-8' : 'application/json', ...mock.headers };
+        setTimeout(() => this.send(res, mock.status ?? 200, headers, mock.body), mock.delay ?? 0);
+    }
+
+    private send(res: http.ServerResponse, status: number, headers: Record<string, string>, body: unknown): void {
+        res.writeHead(status, headers);
+        res.end(body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body, null, 2));
+    }
+
+    /**
+     * Finds the most specific mock for a request: exact paths before ":param" patterns before wildcards.
+     */
+    private findMock(serviceName: string, folder: string, method: string, pathname: string): MockDefinition | undefined {
+        const specificity = (mock: MockDefinition) => (mock.path.match(/:\w+/g) || []).length + (mock.path.endsWith('*') ? 100 : 0);
+        return this.loadMocks(serviceName, folder)
+            .filter(mock => !mock.method || mock.method === '*' || mock.method.toUpperCase() === method)
+            .filter(mock => MockServer.matchesPath(mock.path, pathname))
+            .sort((a, b) => specificity(a) - specificity(b))[0];
+    }
+
+    private loadMocks(serviceName: string, folder: string): MockDefinition[] {
+        if (!fs.existsSync(folder)) return [];
+
+        const mocks: MockDefinition[] = [];
+        for (const file of fs.readdirSync(folder).filter(f => f.endsWith('.json')).sort()) {
+            try {
+                const content = JSON.parse(fs.readFileSync(path.join(folder, file), 'utf8'));
+                for (const mock of Array.isArray(content) ? content : [content]) {
+                    if (typeof mock?.path === 'string') mocks.push(mock);
+                }
+            } catch (error: any) {
+                LogProvider.getInstance().warn(serviceName, `Skipping invalid mock file ${file}: ${error.message}`, { service: serviceName });
+            }
+        }
+        return mocks;
+    }
+
+    private static isLocalOrigin(origin: string): boolean {
+        try {
+            return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(origin).hostname);
+        } catch {
+            return false;
+        }
+    }
+
+    private static matchesPath(pattern: string, pathname: string): boolean {
+        const patternParts = pattern.split('/').filter(p => p);
+        const pathParts = pathname.split('/').filter(p => p);
+        for (let i = 0; i < patternParts.length; i++) {
+            if (patternParts[i] === '*' && i === patternParts.length - 1) return true;
+            if (i >= pathParts.length) return false;
+            if (!patternParts[i].startsWith(':') && patternParts[i] !== pathParts[i]) return false;
+        }
+        return patternParts.length === pathParts.length;
+    }
+
+    /**
+     * Saves a complete JSON response as <METHOD>_<path>.json, replacing an earlier recording of the same request.
+     */
+    private record(exchange: ProxyExchange): void {
+        const folder = this.recording.get(exchange.service);
+        if (!folder || exchange.status === undefined || exchange.responseTruncated) return;
+        const type = String(exchange.responseHeaders?.['content-type'] || '');
+        if (!type.includes('json')) return;
+
+        let pathname: string;
+        try {
+            pathname = new URL(exchange.url, 'http://localhost').pathname;
+        } catch {
+            return;
+        }
+        let body: unknown = exchange.responseBody;
+        try {
+            body = JSON.parse(exchange.responseBody || '');
+        } catch {
+            // Keep it as text
+        }
+        const mock: MockDefinition = { method: exchange.method, path: pathname, status: exchange.status, body };
+
+        const file = `${exchange.method}${pathname.replace(/[^\w.-]+/g, '_')}.json`;
+        try {
+            fs.mkdirSync(folder, { recursive: true });
+            fs.writeFileSync(path.join(folder, file), JSON.stringify(mock, null, 2) + '\n');
+            LogProvider.getInstance().debug(exchange.service, `Recorded mock ${file}`, { service: exchange.service });
+        } catch (error: any) {
+            LogProvider.getInstance().warn(exchange.service, `Could not record mock ${file}: ${error.message}`, { service: exchange.service });
+        }
+    }
+}
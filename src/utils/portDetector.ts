@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ServiceConfig } from '../providers/configurationProvider';
+import { EnvManager } from './envManager';
+
+export interface DetectedPort {
+    port: number;
+    /** Where the port was found, e.g. "vite.config.ts" or "start command". */
+    source: string;
+}
+
+const VITE_CONFIGS = ['vite.config.ts', 'vite.config.js', 'vite.config.mts', 'vite.config.mjs', 'vite.config.cts', 'vite.config.cjs'];
+const ENV_FILES = ['.env.development.local', '.env.local', '.env.development', '.env', '.flaskenv'];
+const SPRING_RESOURCES = path.join('src', 'main', 'resources');
+
+// Environment variables each dev server takes its port from. Vite-based servers and Angular ignore PORT
+const PORT_VARIABLES: Record<string, string[]> = {
+    'react-cra': ['PORT'],
+    'nextjs': ['PORT'],
+    'nuxt': ['NUXT_PORT', 'PORT'],
+    'express': ['PORT'],
+    'nestjs': ['PORT'],
+    'flask': ['FLASK_RUN_PORT'],
+    'fastapi': ['UVICORN_PORT'],
+    'spring-boot': ['SERVER_PORT'],
+    'custom': ['PORT']
+};
+
+/**
+ * Finds the port a dev server will actually listen on by reading the start command and the
+ * project's own config files. Returns undefined when nothing sets it, so callers can fall back to defaults.
+ */
+export class PortDetector {
+    public static detect(service: ServiceConfig, command: string): DetectedPort | undefined {
+        const { folder } = service;
+        const declared = this.getDeclaredEnv(service);
+        return this.fromCommand(command, 'start command')
+            ?? this.fromEnv(service.framework, declared)
+            ?? this.fromPackageScript(folder, command)
+            ?? this.fromViteConfig(folder, declared)
+            ?? this.fromAngularJson(folder)
+            ?? this.fromSpringConfig(folder)
+            ?? this.fromEnvFiles(folder, service.framework);
+    }
+
+    /**
+     * Port flags in a command line: --port 3001, -p 3001, runserver 0.0.0.0:9000, --server.port=8081, PORT=4000 cmd.
+     */
+    public static fromCommand(command: string, source: string): DetectedPort | undefined {
+        const patterns = [
+            /(?:^|\s)(?:--port|-p)(?:=|\s+)(\d{2,5})\b/,
+            /\brunserver\s+(?:[\w.\-\[\]]*:)?(\d{2,5})\b/,
+            /\bserver\.port=(\d{2,5})\b/,
+            /(?:^|\s|&&)\s*(?:set\s+)?PORT=(\d{2,5})\b/
+        ];
+        for (const pattern of patterns) {
+            const match = command.match(pattern);
+            if (match) {
+                return { port: parseInt(match[1], 10), source };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Follows "npm run dev", "yarn dev", "pnpm dev" and "npm start" into package.json scripts.
+     */
+    private static fromPackageScript(folder: string, command: string): DetectedPort | undefined {
+        const match = command.match(/^\s*(?:npm\s+(?:run(?:-script)?\s+)?|yarn\s+(?:run\s+)?|pnpm\s+(?:run\s+)?)([\w:.-]+)/);
+        if (!match) return undefined;
+
+        const pkg = this.readJson(path.join(folder, 'package.json'));
+        const script = pkg?.scripts?.[match[1]];
+        return typeof script === 'string' ? this.fromCommand(script, `package.json "${match[1]}" script`) : undefined;
+    }
+
+    /**
+     * The env the service is started with: its envFile, then its env entries.
+     */
+    private static getDeclaredEnv(service: ServiceConfig): Record<string, string> {
+        const env: Record<string, string> = {};
+        if (service.envFile) {
+            for (const [key, value] of Object.entries(EnvManager.readEnv(path.resolve(service.folder, service.envFile)))) {
+                env[key] = value.replace(/^(['"])(.*)\1$/, '$2');
+            }
+        }
+        return Object.assign(env, service.env);
+    }
+
+    private static fromEnv(framework: string, env: Record<string, string>): DetectedPort | undefined {
+        for (const variable of PORT_VARIABLES[framework] || []) {
+            if (/^\d{2,5}$/.test(env[variable] || '')) {
+                return { port: parseInt(env[variable], 10), source: `${variable} in the service env` };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * server.port in a Vite config, including nested options (server: { proxy: {...}, port: 5174 })
+     * and ports read from the environment (port: Number(process.env.PORT) || 5174).
+     */
+    private static fromViteConfig(folder: string, env: Record<string, string>): DetectedPort | undefined {
+        for (const file of VITE_CONFIGS) {
+            const content = this.readText(path.join(folder, file));
+            const server = content?.match(/\bserver\s*:\s*\{/);
+            if (!content || !server) continue;
+
+            const options = this.topLevel(content, server.index! + server[0].length);
+            const value = options.match(/\bport\s*:\s*([^,\n]+)/)?.[1];
+            const variable = value?.match(/process\.env\.(\w+)/)?.[1];
+            if (variable && /^\d{2,5}$/.test(env[variable] || '')) {
+                return { port: parseInt(env[variable], 10), source: `${variable} for ${file}` };
+            }
+            const fallback = value?.match(/\b(\d{2,5})\b/);
+            if (fallback) {
+                return { port: parseInt(fallback[1], 10), source: file };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * The text of the object starting at start, up to its closing brace, with nested objects and arrays left out.
+     */
+    private static topLevel(content: string, start: number): string {
+        let depth = 0;
+        let text = '';
+        for (let i = start; i < content.length; i++) {
+            const char = content[i];
+            if (char === '{' || char === '[') {
+                depth++;
+            } else if (char === '}' || char === ']') {
+                if (depth === 0) break;
+                depth--;
+            } else if (depth === 0) {
+                text += char;
+            }
+        }
+        return text;
+    }
+
+    private static fromAngularJson(folder: string): DetectedPort | undefined {
+        const angular = this.readJson(path.join(folder, 'angular.json'));
+        if (!angular?.projects) return undefined;
+
+        const names = Object.keys(angular.projects);
+        const project = angular.projects[angular.defaultProject] || angular.projects[names[0]];
+        const serve = project?.architect?.serve || project?.targets?.serve;
+        const port = serve?.options?.port;
+        return typeof port === 'number' ? { port, source: 'angular.json' } : undefined;
+    }
+
+    private static fromSpringConfig(folder: string): DetectedPort | undefined {
+        const properties = this.readText(path.join(folder, SPRING_RESOURCES, 'application.properties'));
+        // server.port=8081 or server.port=${PORT:8081}
+        const propertyMatch = properties?.match(/^\s*server\.port\s*[=:]\s*(?:\$\{\w+:)?(\d{2,5})/m);
+        if (propertyMatch) {
+            return { port: parseInt(propertyMatch[1], 10), source: 'application.properties' };
+        }
+
+        for (const file of ['application.yml', 'application.yaml']) {
+            const yaml = this.readText(path.join(folder, SPRING_RESOURCES, file));
+            const yamlMatch = yaml?.match(/^server:[ \t]*\r?\n(?:[ \t]+.*\r?\n)*?[ \t]+port:[ \t]*(?:\$\{\w+:)?(\d{2,5})/m);
+            if (yamlMatch) {
+                return { port: parseInt(yamlMatch[1], 10), source: file };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * The framework's port variable in the .env files it loads itself.
+     */
+    private static fromEnvFiles(folder: string, framework: string): DetectedPort | undefined {
+        const variables = PORT_VARIABLES[framework];
+        if (!variables) return undefined;
+
+        for (const file of ENV_FILES) {
+            const content = this.readText(path.join(folder, file));
+            const match = content?.match(new RegExp(`^\\s*(?:export\\s+)?(?:${variables.join('|')})\\s*=\\s*["']?(\\d{2,5})`, 'm'));
+            if (match) {
+                return { port: parseInt(match[1], 10), source: file };
+            }
+        }
+        return undefined;
+    }
+
+    private static readText(file: string): string | undefined {
+        try {
+            return fs.readFileSync(file, 'utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    private static readJson(file: string): any {
+        const content = this.readText(file);
+        if (!content) return undefined;
+        try {
+            return JSON.parse(content);
+        } catch {
+            return undefined;
+        }
+    }
+}
@@ -1,10 +1,28 @@
 import * as net from 'net';
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { ServiceConfig } from '../providers/configurationProvider';
+import { getServiceCommand } from './frameworkCommands';
+import { PortDetector, DetectedPort } from './portDetector';
 
 const execPromise = promisify(exec);
 
+/**
+ * A service moved off its usual port because that port was busy.
+ */
+export interface PortReassignment {
+    from: number;
+    to: number;
+}
+
+// How far past a busy port to look for a free one
+const FREE_PORT_SEARCH_LIMIT = 100;
+
 export class PortUtils {
+    // Ports services were launched with, so later checks use the same port even if files change
+    private static activePorts: Map<string, number> = new Map();
+    private static reassignments: Map<string, PortReassignment> = new Map();
+
     /**
      * Checks if a port is available on localhost.
      */
@@ -80,4 +98,66 @@ export class PortUtils {
 
         return defaults[framework] || (type === 'frontend' ? 3000 : 8080);
     }
+
+    /**
+     * Returns the port a service listens on: the port it was launched with while it runs,
+     * otherwise the one resolved from its settings, command and project files.
+     */
+    public static getServicePort(service: ServiceConfig): number {
+        return this.activePorts.get(service.name) ?? this.resolveServicePort(service, getServiceCommand(service)).port;
+    }
+
+    /**
+     * The address to open a service at in the browser, with its health check's scheme and host.
+     */
+    public static getServiceUrl(service: ServiceConfig): string {
+        const { type, host } = service.healthCheck;
+        return `${type === 'https' ? 'https' : 'http'}://${net.isIPv6(host) ? `[${host}]` : host}:${this.getServicePort(service)}`;
+    }
+
+    /**
+     * Works out a service's port for the given start command. The configured port wins, then the command
+     * and the project's config files; the framework default is only a fallback.
+     */
+    public static resolveServicePort(service: ServiceConfig, command: string): DetectedPort {
+        if (service.port) {
+            return { port: service.port, source: 'settings' };
+        }
+        return PortDetector.detect(service, command)
+            ?? { port: this.getPortForFramework(service.framework, service.type), source: `${service.framework} default` };
+    }
+
+    /**
+     * Records the port a service runs on for this session. Pass the port it would normally use
+     * when it had to move to another one.
+     */
+    public static setActivePort(name: string, port: number, originalPort: number = port): void {
+        this.activePorts.set(name, port);
+        if (port !== originalPort) {
+            this.reassignments.set(name, { from: originalPort, to: port });
+        } else {
+            this.reassignments.delete(name);
+        }
+    }
+
+    public static getReassignment(name: string): PortReassignment | undefined {
+        return this.reassignments.get(name);
+    }
+
+    public static clearActivePort(name: string): void {
+        this.activePorts.delete(name);
+        this.reassignments.delete(name);
+    }
+
+    /**
+     * Finds the next free port after the given one, skipping reserved ports. Resolves undefined when none is found.
+     */
+    public static async findFreePort(after: number, reserved: Set<number> = new Set()): Promise<number | undefined> {
+        for (let port = after + 1; port <= Math.min(after + FREE_PORT_SEARCH_LIMIT, 65535); port++) {
+            if (!reserved.has(port) && await this.isPortAvailable(port)) {
+                return port;
+            }
+        }
+        return undefined;
+    }
 }
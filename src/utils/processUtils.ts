@@ -0,0 +1,349 @@
+import * as fs from 'fs';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { LogProvider } from '../providers/logProvider';
+
+const execPromise = promisify(exec);
+
+export interface ProcessInfo {
+    pid: number;
+    name: string;
+    commandLine: string;
+    /** Working directory, when the platform lets us read it. */
+    cwd?: string;
+    startTime?: Date;
+}
+
+/**
+ * Resource counters of one process.
+ */
+export interface ProcessSample {
+    /** User plus system CPU time in seconds since the process started. */
+    cpuTime: number;
+    /** Resident memory in bytes. */
+    rss: number;
+}
+
+export class ProcessUtils {
+    private static systemConfig: Map<string, number> = new Map();
+
+    /**
+     * Finds the process listening on a TCP port, or undefined when nothing is or it can't be determined.
+     */
+    public static async getPortOwner(port: number): Promise<ProcessInfo | undefined> {
+        const pid = await this.getListeningPid(port);
+        return pid === undefined ? undefined : this.getProcessInfo(pid);
+    }
+
+    /**
+     * Reads name, command line, working directory and start time of a process.
+     */
+    public static async getProcessInfo(pid: number): Promise<ProcessInfo> {
+        const info: ProcessInfo = { pid, name: await this.getProcessName(pid), commandLine: '' };
+        try {
+            if (process.platform === 'linux') {
+                info.commandLine = fs.readFileSync(`/proc/${pid}/cmdline`, 'utf8').split('\0').join(' ').trim();
+                info.cwd = this.tryRead(() => fs.readlinkSync(`/proc/${pid}/cwd`));
+                info.startTime = await this.getLinuxStartTime(pid);
+            } else if (process.platform === 'win32') {
+                const { stdout } = await execPromise(`wmic process where ProcessId=${pid} get CommandLine,CreationDate /format:list`);
+                info.commandLine = stdout.match(/^CommandLine=(.*)$/m)?.[1].trim() || '';
+                // CreationDate looks like 20240501211403.512000+120
+                const created = stdout.match(/^CreationDate=(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})/m);
+                if (created) {
+                    const [, year, month, day, hour, minute, second] = created;
+                    info.startTime = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}`);
+                }
+            } else {
+                const { stdout } = await execPromise(`ps -p ${pid} -o lstart=,command=`);
+                // lstart is a fixed 24 character date, e.g. "Wed May  1 21:14:03 2024"
+                info.startTime = new Date(stdout.slice(0, 24).trim());
+                info.commandLine = stdout.slice(24).trim();
+                const { stdout: cwd } = await execPromise(`lsof -a -p ${pid} -d cwd -Fn`);
+                info.cwd = cwd.split('\n').find(line => line.startsWith('n'))?.slice(1);
+            }
+        } catch {
+            // Partial information is still worth showing
+        }
+        if (info.startTime && isNaN(info.startTime.getTime())) {
+            info.startTime = undefined;
+        }
+        return info;
+    }
+
+    /**
+     * Returns the pid and all of its descendants, parents before children.
+     */
+    public static async getProcessTree(rootPid: number): Promise<number[]> {
+        const parents = await this.getParentMap();
+        const tree = [rootPid];
+        for (let i = 0; i < tree.length; i++) {
+            for (const [pid, ppid] of parents.entries()) {
+                if (ppid === tree[i] && !tree.includes(pid)) {
+                    tree.push(pid);
+                }
+            }
+        }
+        return tree;
+    }
+
+    /**
+     * Checks whether a process with the given pid still exists.
+     */
+    public static isAlive(pid: number): boolean {
+        try {
+            process.kill(pid, 0);
+            return true;
+        } catch (error: any) {
+            // EPERM means it exists but belongs to someone else
+            return error.code === 'EPERM';
+        }
+    }
+
+    /**
+     * Sends a signal to every process in the list, ignoring ones that are already gone.
+     * On Windows there are no signals: SIGKILL forces termination, anything else asks politely.
+     */
+    public static async signalAll(pids: number[], signal: NodeJS.Signals): Promise<void> {
+        if (process.platform === 'win32') {
+            const force = signal === 'SIGKILL' ? ' /F' : '';
+            for (const pid of pids) {
+                await execPromise(`taskkill /PID ${pid} /T${force}`).catch(() => undefined);
+            }
+            return;
+        }
+
+        for (const pid of pids) {
+            try {
+                process.kill(pid, signal);
+            } catch {
+                // Already exited
+            }
+        }
+    }
+
+    /**
+     * Polls until none of the processes are alive or the timeout expires.
+     * Resolves with the pids that are still running.
+     */
+    public static async waitForExit(pids: number[], timeoutMs: number): Promise<number[]> {
+        const deadline = Date.now() + timeoutMs;
+        let alive = pids.filter(pid => this.isAlive(pid));
+        while (alive.length > 0 && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, 200));
+            alive = alive.filter(pid => this.isAlive(pid));
+        }
+        return alive;
+    }
+
+    /**
+     * Asks a process to exit with SIGTERM and kills it when it is still alive after the grace period.
+     * Resolves whether it is gone.
+     */
+    public static async terminate(pid: number, gracePeriod: number): Promise<boolean> {
+        await this.signalAll([pid], 'SIGTERM');
+        let alive = await this.waitForExit([pid], gracePeriod);
+        if (alive.length > 0) {
+            await this.signalAll(alive, 'SIGKILL');
+            alive = await this.waitForExit(alive, 2000);
+        }
+        return alive.length === 0;
+    }
+
+    /**
+     * Reads CPU time and resident memory of the processes that still exist.
+     */
+    public static async sampleProcesses(pids: number[]): Promise<Map<number, ProcessSample>> {
+        const samples = new Map<number, ProcessSample>();
+        if (pids.length === 0) return samples;
+        try {
+            if (process.platform === 'linux') {
+                const ticksPerSecond = await this.getLinuxConfig('CLK_TCK', 100);
+                const pageSize = await this.getLinuxConfig('PAGESIZE', 4096);
+                for (const pid of pids) {
+                    const stat = this.tryRead(() => fs.readFileSync(`/proc/${pid}/stat`, 'utf8'));
+                    if (!stat) continue;
+                    // Fields 14 and 15 are utime and stime in clock ticks, field 24 is rss in pages
+                    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+                    samples.set(pid, {
+                        cpuTime: (parseInt(fields[11], 10) + parseInt(fields[12], 10)) / ticksPerSecond,
+                        rss: parseInt(fields[21], 10) * pageSize
+                    });
+                }
+            } else if (process.platform === 'win32') {
+                const filter = pids.map(pid => `ProcessId=${pid}`).join(' or ');
+                const { stdout } = await execPromise(`wmic process where "${filter}" get ProcessId,KernelModeTime,UserModeTime,WorkingSetSize /format:csv`);
+                for (const line of stdout.split('\n')) {
+                    // Columns are sorted by name: Node,KernelModeTime,ProcessId,UserModeTime,WorkingSetSize
+                    const [, kernel, pid, user, workingSet] = line.trim().split(',');
+                    if (!/^\d+$/.test(pid || '')) continue;
+                    // Times are in 100 nanosecond units
+                    samples.set(parseInt(pid, 10), {
+                        cpuTime: (parseInt(kernel, 10) + parseInt(user, 10)) / 1e7,
+                        rss: parseInt(workingSet, 10)
+                    });
+                }
+            } else {
+                const { stdout } = await execPromise(`ps -o pid=,time=,rss= -p ${pids.join(',')}`);
+                for (const line of stdout.split('\n')) {
+                    const [pid, time, rss] = line.trim().split(/\s+/);
+                    if (!pid || !time || !rss) continue;
+                    // time is [[dd-]hh:]mm:ss(.cc), rss is in kilobytes
+                    const [days, clock] = time.includes('-') ? time.split('-') : ['0', time];
+                    const seconds = clock.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+                    samples.set(parseInt(pid, 10), { cpuTime: parseInt(days, 10) * 86400 + seconds, rss: parseInt(rss, 10) * 1024 });
+                }
+            }
+        } catch {
+            // ps exits non-zero once all processes are gone
+        }
+        return samples;
+    }
+
+    /**
+     * Returns a short name for a process, e.g. "node" or "java".
+     */
+    public static async getProcessName(pid: number): Promise<string> {
+        try {
+            if (process.platform === 'linux') {
+                return fs.readFileSync(`/proc/${pid}/comm`, 'utf8').trim();
+            }
+            if (process.platform === 'win32') {
+                const { stdout } = await execPromise(`tasklist /FI "PID eq ${pid}" /FO CSV /NH`);
+                return stdout.split(',')[0]?.replace(/"/g, '').trim() || 'unknown';
+            }
+            const { stdout } = await execPromise(`ps -p ${pid} -o comm=`);
+            return stdout.trim() || 'unknown';
+        } catch {
+            return 'unknown';
+        }
+    }
+
+    private static async getListeningPid(port: number): Promise<number | undefined> {
+        try {
+            if (process.platform === 'linux') {
+                const pid = this.findLinuxSocketOwner(port);
+                if (pid !== undefined) return pid;
+            }
+            if (process.platform === 'win32') {
+                const { stdout } = await execPromise(`netstat -ano -p TCP | findstr :${port}`);
+                for (const line of stdout.split('\n')) {
+                    const parts = line.trim().split(/\s+/);
+                    if (parts.length >= 5 && parts[1].endsWith(`:${port}`) && parts[3] === 'LISTENING') {
+                        return parseInt(parts[4], 10);
+                    }
+                }
+                return undefined;
+            }
+            const { stdout } = await execPromise(`lsof -nP -iTCP:${port} -sTCP:LISTEN -t`);
+            const pid = parseInt(stdout.trim().split('\n')[0], 10);
+            return isNaN(pid) ? undefined : pid;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Looks up the listening socket's inode in /proc/net/tcp{,6}, then the process holding it open.
+     * Other users' processes can't be inspected this way, callers fall back to lsof.
+     */
+    private static findLinuxSocketOwner(port: number): number | undefined {
+        const hexPort = port.toString(16).toUpperCase().padStart(4, '0');
+        const inodes = new Set<string>();
+        for (const table of ['/proc/net/tcp', '/proc/net/tcp6']) {
+            const content = this.tryRead(() => fs.readFileSync(table, 'utf8')) || '';
+            for (const line of content.split('\n').slice(1)) {
+                const fields = line.trim().split(/\s+/);
+                // local_address is ADDR:PORT in hex, state 0A is LISTEN
+                if (fields[1]?.endsWith(`:${hexPort}`) && fields[3] === '0A') {
+                    inodes.add(fields[9]);
+                }
+            }
+        }
+        if (inodes.size === 0) return undefined;
+
+        for (const entry of fs.readdirSync('/proc')) {
+            if (!/^\d+$/.test(entry)) continue;
+            const fds = this.tryRead(() => fs.readdirSync(`/proc/${entry}/fd`)) || [];
+            for (const fd of fds) {
+                const target = this.tryRead(() => fs.readlinkSync(`/proc/${entry}/fd/${fd}`));
+                const inode = target?.match(/^socket:\[(\d+)\]$/)?.[1];
+                if (inode && inodes.has(inode)) {
+                    return parseInt(entry, 10);
+                }
+            }
+        }
+        return undefined;
+    }
+
+    private static async getLinuxStartTime(pid: number): Promise<Date | undefined> {
+        // Field 22 of /proc/<pid>/stat is the start time in clock ticks after boot
+        const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf8');
+        const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+        const startTicks = parseInt(fields[19], 10);
+        const bootTime = fs.readFileSync('/proc/stat', 'utf8').match(/^btime (\d+)$/m)?.[1];
+        if (isNaN(startTicks) || !bootTime) return undefined;
+
+        const ticksPerSecond = await this.getLinuxConfig('CLK_TCK', 100);
+        return new Date((parseInt(bootTime, 10) + startTicks / ticksPerSecond) * 1000);
+    }
+
+    /**
+     * Reads a system constant such as CLK_TCK once, falling back to the usual value.
+     */
+    private static async getLinuxConfig(name: 'CLK_TCK' | 'PAGESIZE', fallback: number): Promise<number> {
+        let value = this.systemConfig.get(name);
+        if (value === undefined) {
+            const { stdout } = await execPromise(`getconf ${name}`).catch(() => ({ stdout: '' }));
+            value = parseInt(stdout.trim(), 10) || fallback;
+            this.systemConfig.set(name, value);
+        }
+        return value;
+    }
+
+    private static tryRead<T>(read: () => T): T | undefined {
+        try {
+            return read();
+        } catch {
+            return undefined;
+        }
+    }
+
+    private static async getParentMap(): Promise<Map<number, number>> {
+        const parents = new Map<number, number>();
+        try {
+            if (process.platform === 'linux') {
+                for (const entry of fs.readdirSync('/proc')) {
+                    if (!/^\d+$/.test(entry)) continue;
+                    try {
+                        // The command name may contain spaces and parens, so parse after the last ')'
+                        const stat = fs.readFileSync(`/proc/${entry}/stat`, 'utf8');
+                        const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+                        parents.set(parseInt(entry, 10), parseInt(fields[1], 10));
+                    } catch {
+                        // Process exited while we were reading
+                    }
+                }
+            } else if (process.platform === 'win32') {
+                const { stdout } = await execPromise('wmic process get ProcessId,ParentProcessId /format:csv');
+                for (const line of stdout.split('\n')) {
+                    const [, ppid, pid] = line.trim().split(',');
+                    if (/^\d+$/.test(pid || '') && /^\d+$/.test(ppid || '')) {
+                        parents.set(parseInt(pid, 10), parseInt(ppid, 10));
+                    }
+                }
+            } else {
+                const { stdout } = await execPromise('ps -A -o pid=,ppid=');
+                for (const line of stdout.split('\n')) {
+                    const [pid, ppid] = line.trim().split(/\s+/);
+                    if (pid && ppid) {
+                        parents.set(parseInt(pid, 10), parseInt(ppid, 10));
+                    }
+                }
+            }
+        } catch (error: any) {
+            LogProvider.getInstance().error('SYSTEM', `Failed to list processes: ${error.message}`);
+        }
+        return parents;
+    }
+}
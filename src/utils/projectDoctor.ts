@@ -0,0 +1,410 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { ConfigurationProvider, ProjectConfig, ServiceConfig } from '../providers/configurationProvider';
+import { getServiceCommand } from './frameworkCommands';
+import { DependencyUtils } from './dependencyUtils';
+import { PortUtils } from './portUtils';
+import { ProcessUtils } from './processUtils';
+import { ServiceGraph } from './serviceGraph';
+
+const execFilePromise = promisify(execFile);
+
+export type DoctorSeverity = 'error' | 'warning' | 'ok';
+
+/**
+ * One result of a doctor run. Errors and warnings come with a fix; ok results only appear in the report.
+ */
+export interface DoctorFinding {
+    severity: DoctorSeverity;
+    /** Service the finding is about, undefined for the project as a whole. */
+    service?: string;
+    message: string;
+    /** What to do about it. */
+    fix?: string;
+    /** File the problem is in, when it isn't the project configuration. */
+    file?: string;
+    /** Text on the line to point at, in file or in the project configuration. */
+    find?: string;
+}
+
+type Runtime = 'node' | 'python' | 'java';
+
+interface Requirement {
+    range: string;
+    file: string;
+    find: string;
+    style: 'npm' | 'python' | 'java';
+}
+
+const RUNTIME_EXECUTABLES: Record<string, Runtime> = {
+    node: 'node', npm: 'node', npx: 'node', yarn: 'node', pnpm: 'node', ng: 'node',
+    python: 'python', python3: 'python', py: 'python', pip: 'python', uvicorn: 'python', flask: 'python', gunicorn: 'python',
+    java: 'java', mvn: 'java', mvnw: 'java', gradle: 'java', gradlew: 'java'
+};
+
+const FRAMEWORK_RUNTIMES: Record<string, Runtime> = {
+    'react-vite': 'node', 'react-cra': 'node', 'vue': 'node', 'angular': 'node', 'nextjs': 'node', 'nuxt': 'node',
+    'svelte': 'node', 'express': 'node', 'nestjs': 'node',
+    'django': 'python', 'flask': 'python', 'fastapi': 'python',
+    'spring-boot': 'java'
+};
+
+const INSTALL_HINTS: Record<Runtime, string> = {
+    node: 'Install Node.js (https://nodejs.org) or select it with nvm, then restart VS Code so it picks up PATH.',
+    python: 'Install Python (https://python.org) or activate the right pyenv/conda version, then restart VS Code.',
+    java: 'Install a JDK (https://adoptium.net) and make sure JAVA_HOME/bin is on PATH, then restart VS Code.'
+};
+
+// Words that start a shell statement without naming a program to run
+const SHELL_BUILTINS = ['cd', 'set', 'export', 'echo', 'call', 'start', 'exec', 'env', 'true', 'false'];
+
+/**
+ * Checks what a failed start usually comes down to: missing programs, wrong runtime versions,
+ * folders and env files that don't exist, missing dependencies and ports taken by other processes.
+ */
+export class ProjectDoctor {
+    /**
+     * Checks the whole project. isRunning tells which services are up, so their own ports aren't reported as taken.
+     */
+    public static async diagnose(config: ProjectConfig, isRunning: (name: string) => boolean): Promise<DoctorFinding[]> {
+        const findings: DoctorFinding[] = [];
+        const versions = new Map<string, Promise<string | undefined>>();
+
+        const { error: profileError } = ConfigurationProvider.getProfileChain(config.profiles, config.activeProfile);
+        if (profileError) {
+            findings.push({ severity: 'error', message: profileError, fix: 'Fix the profile\'s "extends" or switch to another profile.', find: config.activeProfile });
+        }
+        try {
+            ServiceGraph.getStartupOrder(config.services);
+        } catch (error: any) {
+            findings.push({ severity: 'error', message: error.message, fix: 'Fix the "dependsOn" lists so they only name configured services and don\'t form a cycle.', find: 'dependsOn' });
+        }
+
+        const ports = new Map<number, string>();
+        for (const service of config.services) {
+            const port = PortUtils.getServicePort(service);
+            const other = ports.get(port);
+            if (other) {
+                findings.push({ severity: 'error', service: service.name, message: `Uses port ${port}, like ${other}.`, fix: `Give one of them another "port".`, find: service.name });
+            }
+            ports.set(port, service.name);
+
+            findings.push(...await this.checkService(service, config, isRunning(service.name), versions));
+        }
+        return findings;
+    }
+
+    private static async checkService(
+        service: ServiceConfig,
+        config: ProjectConfig,
+        running: boolean,
+        versions: Map<string, Promise<string | undefined>>
+    ): Promise<DoctorFinding[]> {
+        const findings: DoctorFinding[] = [];
+        const add = (finding: Omit<DoctorFinding, 'service'>) => findings.push({ service: service.name, ...finding });
+
+        if (!service.path) {
+            add({ severity: 'error', message: 'Has no folder.', fix: 'Set its "path", or pick the folder in the dashboard.', find: service.name });
+            return findings;
+        }
+        if (!fs.existsSync(service.folder)) {
+            add({ severity: 'error', message: `Folder ${service.folder} doesn't exist.`, fix: 'Point "path" at the service folder, relative to the workspace folder.', find: service.path });
+            return findings;
+        }
+
+        add(await this.checkPort(service, running));
+        if (service.mock) {
+            add({ severity: 'ok', message: 'Runs as a mock, its command isn\'t checked.' });
+            return findings;
+        }
+
+        if (service.envFile && !fs.existsSync(path.resolve(service.folder, service.envFile))) {
+            add({ severity: 'warning', message: `Env file ${service.envFile} doesn't exist.`, fix: `Create it in ${service.folder} or correct "envFile".`, find: service.envFile });
+        }
+        for (const [, name] of Object.values(service.env).join(' ').matchAll(/\$\{port:([^}]+)\}/g)) {
+            if (!config.services.some(s => s.name === name)) {
+                add({ severity: 'error', message: `"env" refers to \${port:${name}}, but there is no service named ${name}.`, fix: 'Use the name of a configured service.', find: `\${port:${name}}` });
+            }
+        }
+
+        if (!(await DependencyUtils.checkDependencies(service.folder, service.framework))) {
+            add({ severity: 'warning', message: 'Dependencies are not installed.', fix: `Run ${DependencyUtils.getInstallCommand(service.framework)} in ${service.folder}.`, find: service.name });
+        }
+
+        // Every program the command runs, and the runtimes behind them
+        const command = getServiceCommand(service);
+        const runtimes = new Set<Runtime>(FRAMEWORK_RUNTIMES[service.framework] ? [FRAMEWORK_RUNTIMES[service.framework]] : []);
+        for (const program of this.getPrograms(command)) {
+            const name = path.basename(program).replace(/\.(?:cmd|bat|exe)$/i, '');
+            if (RUNTIME_EXECUTABLES[name]) runtimes.add(RUNTIME_EXECUTABLES[name]);
+            add(this.checkProgram(program, service.folder));
+        }
+
+        for (const runtime of runtimes) {
+            findings.push(...(await this.checkRuntime(runtime, service, command, versions)).map(f => ({ service: service.name, ...f })));
+        }
+        return findings;
+    }
+
+    /**
+     * Programs a command line runs: the first word of every statement, after VAR=value assignments.
+     */
+    private static getPrograms(command: string): string[] {
+        const programs: string[] = [];
+        for (const statement of command.split(/&&|\|\||[;|]/)) {
+            const words = statement.trim().split(/\s+/).filter(word => !/^\w+=/.test(word));
+            const program = words[0]?.replace(/^["']|["']$/g, '');
+            if (program && !SHELL_BUILTINS.includes(program.toLowerCase()) && !programs.includes(program)) {
+                programs.push(program);
+            }
+        }
+        return programs;
+    }
+
+    private static checkProgram(program: string, folder: string): Omit<DoctorFinding, 'service'> {
+        const found = this.which(program, folder);
+        if (found) {
+            return { severity: 'ok', message: `${program} found at ${found}.` };
+        }
+
+        const name = path.basename(program).replace(/\.(?:cmd|bat)$/i, '');
+        const local = ['mvnw', 'gradlew'].includes(name) ? path.join(folder, name) : undefined;
+        if (local && !program.includes('/') && fs.existsSync(local) && process.platform !== 'win32') {
+            return { severity: 'error', message: `${name} is in the service folder but not on PATH.`, fix: `Start it as ./${name} in "command".`, find: program };
+        }
+        if (name === 'mvnw') {
+            return { severity: 'error', message: 'The Maven wrapper (mvnw) is missing.', fix: `Run mvn -N wrapper:wrapper in ${folder}, or start with mvn instead of mvnw.`, find: program };
+        }
+        if (name === 'gradlew') {
+            return { severity: 'error', message: 'The Gradle wrapper (gradlew) is missing.', fix: `Run gradle wrapper in ${folder}, or start with gradle instead of gradlew.`, find: program };
+        }
+        const runtime = RUNTIME_EXECUTABLES[name];
+        return {
+            severity: 'error',
+            message: program.includes('/') || program.includes('\\') ? `${program} doesn't exist or isn't executable.` : `${program} is not installed or not on PATH.`,
+            fix: runtime ? INSTALL_HINTS[runtime] : `Install ${program}, or change "command".`,
+            find: program
+        };
+    }
+
+    /**
+     * Resolves a program like the shell does: paths relative to the folder, bare names on PATH
+     * (and in the folder on Windows).
+     */
+    private static which(program: string, folder: string): string | undefined {
+        const windows = process.platform === 'win32';
+        const extensions = windows ? ['', ...(process.env.PATHEXT || '.COM;.EXE;.BAT;.CMD').split(';')] : [''];
+        const isExecutable = (file: string) => {
+            try {
+                fs.accessSync(file, windows ? fs.constants.F_OK : fs.constants.X_OK);
+                return fs.statSync(file).isFile();
+            } catch {
+                return false;
+            }
+        };
+
+        const candidates = program.includes('/') || program.includes('\\')
+            ? [path.resolve(folder, program)]
+            : [...(windows ? [folder] : []), ...(process.env.PATH || '').split(path.delimiter).filter(dir => dir)].map(dir => path.join(dir, program));
+        for (const candidate of candidates) {
+            const found = extensions.map(ext => candidate + ext).find(isExecutable);
+            if (found) return found;
+        }
+        return undefined;
+    }
+
+    /**
+     * Compares the installed runtime version with what the service's project files ask for.
+     */
+    private static async checkRuntime(
+        runtime: Runtime,
+        service: ServiceConfig,
+        command: string,
+        versions: Map<string, Promise<string | undefined>>
+    ): Promise<Omit<DoctorFinding, 'service'>[]> {
+        const executable = this.getRuntimeExecutable(runtime, command, service.folder);
+        if (!executable) return [];
+        if (!versions.has(executable)) {
+            versions.set(executable, this.getVersion(runtime, executable));
+        }
+        const version = await versions.get(executable);
+        if (!version) {
+            return [{ severity: 'warning', message: `Could not tell the ${runtime} version of ${executable}.`, fix: `Check that ${executable} runs from a terminal.` }];
+        }
+
+        const findings: Omit<DoctorFinding, 'service'>[] = [];
+        for (const requirement of this.getRequirements(runtime, service.folder)) {
+            const satisfied = this.satisfies(version, requirement.range, requirement.style);
+            if (satisfied === undefined) continue;
+            const where = path.basename(requirement.file);
+            findings.push(satisfied
+                ? { severity: 'ok', message: `${runtime} ${version} matches ${requirement.range} from ${where}.` }
+                : {
+                    severity: 'error',
+                    message: `${runtime} ${version} doesn't match ${requirement.range} required by ${where}.`,
+                    fix: runtime === 'node'
+                        ? `Switch Node.js, e.g. nvm install ${requirement.range.replace(/^[^\d]*/, '').split(/[\s|]/)[0]} && nvm use, and restart VS Code.`
+                        : runtime === 'python'
+                            ? 'Install a matching Python and select it, e.g. with pyenv local, then restart VS Code.'
+                            : `Install JDK ${requirement.range} or newer and put it first on PATH (or JAVA_HOME), then restart VS Code.`,
+                    file: requirement.file,
+                    find: requirement.find
+                });
+        }
+        if (findings.length === 0) {
+            findings.push({ severity: 'ok', message: `${runtime} ${version}.` });
+        }
+        return findings;
+    }
+
+    private static getRuntimeExecutable(runtime: Runtime, command: string, folder: string): string | undefined {
+        const candidates = runtime === 'node' ? ['node']
+            : runtime === 'java' ? ['java']
+                : [...this.getPrograms(command).filter(p => /^python[\d.]*$|^py$/.test(path.basename(p))), 'python3', 'python'];
+        return candidates.find(candidate => this.which(candidate, folder));
+    }
+
+    private static async getVersion(runtime: Runtime, executable: string): Promise<string | undefined> {
+        try {
+            const { stdout, stderr } = await execFilePromise(executable, [runtime === 'java' ? '-version' : '--version'], { timeout: 5000 });
+            // java prints 'openjdk version "17.0.2"' or '"1.8.0_292"' to stderr
+            const match = `${stdout}\n${stderr}`.match(runtime === 'java' ? /version "(?:1\.)?(\d+[\d.]*)/ : /v?(\d+\.\d+(?:\.\d+)?)/);
+            return match?.[1];
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Version requirements in a service's project files.
+     */
+    private static getRequirements(runtime: Runtime, folder: string): Requirement[] {
+        const requirements: Requirement[] = [];
+        const read = (file: string) => {
+            try {
+                return fs.readFileSync(path.join(folder, file), 'utf8');
+            } catch {
+                return undefined;
+            }
+        };
+        const add = (file: string, range: string | undefined, find: string | undefined, style: Requirement['style']) => {
+            if (range && find) requirements.push({ range: range.trim(), file: path.join(folder, file), find, style });
+        };
+
+        if (runtime === 'node') {
+            for (const file of ['.nvmrc', '.node-version']) {
+                const version = read(file)?.split(/\r?\n/)[0].trim().replace(/^v/, '');
+                add(file, version, version, 'npm');
+            }
+            const engines = read('package.json');
+            let range: string | undefined;
+            try {
+                range = engines ? JSON.parse(engines)?.engines?.node : undefined;
+            } catch {
+                range = undefined;
+            }
+            add('package.json', typeof range === 'string' ? range : undefined, '"node"', 'npm');
+        } else if (runtime === 'python') {
+            const version = read('.python-version')?.split(/\r?\n/)[0].trim();
+            add('.python-version', version, version, 'python');
+            const pyproject = read('pyproject.toml')?.match(/^\s*requires-python\s*=\s*["']([^"']+)["']/m);
+            add('pyproject.toml', pyproject?.[1], 'requires-python', 'python');
+            const setupCfg = read('setup.cfg')?.match(/^\s*python_requires\s*=\s*(.+)$/m);
+            add('setup.cfg', setupCfg?.[1], 'python_requires', 'python');
+            const setupPy = read('setup.py')?.match(/python_requires\s*=\s*["']([^"']+)["']/);
+            add('setup.py', setupPy?.[1], 'python_requires', 'python');
+        } else {
+            const pom = read('pom.xml')?.match(/<(java\.version|maven\.compiler\.release|maven\.compiler\.source)>\s*(?:1\.)?(\d+)\s*</);
+            add('pom.xml', pom?.[2], pom?.[1], 'java');
+            for (const file of ['build.gradle', 'build.gradle.kts']) {
+                const gradle = read(file)?.match(/(JavaLanguageVersion\.of|sourceCompatibility)\s*[(=]?\s*(?:JavaVersion\.VERSION_)?['"]?(?:1[._])?(\d+)/);
+                add(file, gradle?.[2], gradle?.[1], 'java');
+            }
+        }
+        return requirements;
+    }
+
+    /**
+     * Whether a version matches an npm range (^18, >=18 <21, 18.x, 20.11.0, a || b), a Python
+     * specifier (>=3.8,<4, ~=3.10, ==3.11.*) or a Java release (installed must be at least it).
+     * Undefined when the requirement can't be read, e.g. "lts/*".
+     */
+    private static satisfies(version: string, range: string, style: Requirement['style']): boolean | undefined {
+        const installed = version.split('.').map(n => parseInt(n, 10));
+        const compare = (wanted: number[]) => {
+            for (let i = 0; i < wanted.length; i++) {
+                const diff = (installed[i] ?? 0) - wanted[i];
+                if (diff !== 0) return Math.sign(diff);
+            }
+            return 0;
+        };
+        const parse = (text: string) => {
+            const parts = text.replace(/^v/, '').split('.');
+            const numbers: number[] = [];
+            for (const part of parts) {
+                if (!/^\d+$/.test(part)) break;
+                numbers.push(parseInt(part, 10));
+            }
+            return numbers;
+        };
+
+        if (style === 'java') {
+            return compare(parse(range)) >= 0;
+        }
+
+        const alternatives = style === 'npm' ? range.split('||') : [range];
+        let understood = false;
+        const result = alternatives.some(alternative => {
+            const comparators = style === 'npm'
+                ? alternative.trim().replace(/([<>=~^]+)\s+/g, '$1').split(/\s+/)
+                : alternative.split(',').map(c => c.trim());
+            return comparators.filter(c => c).every(comparator => {
+                const match = comparator.match(/^(\^|~=|~|>=|<=|>|<|==|!=|=)?\s*(.*)$/);
+                const op = match?.[1] || '=';
+                const wanted = parse(match?.[2] || '');
+                if (/^(?:\*|x|X)?$/.test(match?.[2] || '')) {
+                    understood = true;
+                    return true;
+                }
+                if (wanted.length === 0) return true;
+                understood = true;
+                const cmp = compare(wanted);
+                switch (op) {
+                    case '>=': return cmp >= 0;
+                    case '>': return cmp > 0;
+                    case '<=': return cmp <= 0;
+                    case '<': return cmp < 0;
+                    case '!=': return cmp !== 0;
+                    case '^': return cmp >= 0 && installed[0] === wanted[0] && (wanted[0] !== 0 || installed[1] === wanted[1]);
+                    case '~': return cmp >= 0 && installed[0] === wanted[0] && (wanted.length < 2 || installed[1] === wanted[1]);
+                    // ~=3.10 means >=3.10 and ==3.*
+                    case '~=': return cmp >= 0 && wanted.slice(0, -1).every((n, i) => installed[i] === n);
+                    default: return cmp === 0;
+                }
+            });
+        });
+        return understood ? result : undefined;
+    }
+
+    private static async checkPort(service: ServiceConfig, running: boolean): Promise<Omit<DoctorFinding, 'service'>> {
+        const port = PortUtils.getServicePort(service);
+        if (running) {
+            return { severity: 'ok', message: `Running on port ${port}.` };
+        }
+        if (await PortUtils.isPortAvailable(port)) {
+            return { severity: 'ok', message: `Port ${port} is free.` };
+        }
+
+        const owner = await ProcessUtils.getPortOwner(port);
+        return {
+            severity: 'warning',
+            message: owner
+                ? `Port ${port} is used by ${owner.name} (PID ${owner.pid}): ${owner.commandLine}`
+                : `Port ${port} is already in use.`,
+            fix: `Stop that process, set another "port", or set projectStarter.portConflictPolicy to "reassign".`,
+            find: service.name
+        };
+    }
+}
@@ -0,0 +1,115 @@
+import { HealthCheckConfig, ServiceConfig } from '../providers/configurationProvider';
+import { TerminalProvider } from '../providers/terminalProvider';
+import { HealthChecker } from './healthChecker';
+
+const POLL_INTERVAL_MS = 500;
+
+// Dev servers listen on either loopback address depending on how localhost resolves for them
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1'];
+
+export class ReadinessChecker {
+    /**
+     * Resolves once the service is ready according to its readiness settings.
+     * Rejects when the timeout expires or the process exits first.
+     */
+    public static waitUntilReady(service: ServiceConfig, port: number, terminalProvider: TerminalProvider): Promise<void> {
+        const { readiness } = service;
+
+        let pattern: RegExp | undefined;
+        if (readiness.type === 'log') {
+            // An empty pattern would match the first line printed
+            if (!readiness.pattern) {
+                return Promise.reject(new Error(`${service.name} waits for a log line but has no readiness.pattern.`));
+            }
+            try {
+                pattern = new RegExp(readiness.pattern);
+            } catch (error: any) {
+                return Promise.reject(new Error(`${service.name} has an invalid readiness.pattern /${readiness.pattern}/: ${error.message}`));
+            }
+        }
+
+        return new Promise((resolve, reject) => {
+            let settled = false;
+            let poller: NodeJS.Timeout | undefined;
+
+            const finish = (error?: Error) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                if (poller) clearTimeout(poller);
+                subscription.dispose();
+                error ? reject(error) : resolve();
+            };
+
+            // Log readiness listens to output, the other types poll
+            const subscription = terminalProvider.onDidOutputLine(({ name, line }) => {
+                if (name === service.name && pattern && pattern.test(line)) {
+                    finish();
+                }
+            });
+
+            const timer = setTimeout(() => {
+                finish(new Error(
+                    `${service.name} did not become ready within ${readiness.timeout / 1000}s ` +
+                    `(${this.describe(service, port)}).`
+                ));
+            }, readiness.timeout);
+
+            const poll = async () => {
+                if (settled) return;
+                if (!terminalProvider.isRunning(service.name)) {
+                    finish(new Error(`${service.name} exited before becoming ready.`));
+                    return;
+                }
+                if (readiness.type !== 'log') {
+                    if (await this.isReady(service, port)) {
+                        finish();
+                        return;
+                    }
+                }
+                poller = setTimeout(poll, POLL_INTERVAL_MS);
+            };
+            poller = setTimeout(poll, POLL_INTERVAL_MS);
+        });
+    }
+
+    /**
+     * Runs the readiness check once: a TCP connect for port readiness, otherwise a GET on the readiness
+     * path over the health check's scheme that answers with a 2xx or 3xx status. localhost tries both
+     * loopback addresses.
+     */
+    public static async isReady(service: ServiceConfig, port: number): Promise<boolean> {
+        const check = this.getCheck(service);
+        for (const host of check.host === 'localhost' ? LOOPBACK_HOSTS : [check.host]) {
+            if ((await HealthChecker.probe(port, { ...check, host })).healthy) return true;
+        }
+        return false;
+    }
+
+    private static getCheck(service: ServiceConfig): HealthCheckConfig {
+        const { healthCheck, readiness } = service;
+        return readiness.type === 'http'
+            ? {
+                ...healthCheck,
+                type: healthCheck.type === 'https' ? 'https' : 'http',
+                path: readiness.path,
+                expectedStatus: '200-399',
+                bodyPattern: '',
+                timeout: 2000
+            }
+            : { ...healthCheck, type: 'tcp', timeout: 1000 };
+    }
+
+    private static describe(service: ServiceConfig, port: number): string {
+        switch (service.readiness.type) {
+            case 'http': {
+                const check = this.getCheck(service);
+                return `waiting for ${check.type}://${check.host}:${port}${check.path}`;
+            }
+            case 'log':
+                return `waiting for output matching /${service.readiness.pattern}/`;
+            default:
+                return `waiting for port ${port} on ${service.healthCheck.host}`;
+        }
+    }
+}
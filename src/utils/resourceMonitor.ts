@@ -0,0 +1,183 @@
+import * as vscode from 'vscode';
+import { ProcessUtils } from './processUtils';
+import { LogProvider } from '../providers/logProvider';
+
+/**
+ * CPU and memory of a service's whole process tree at the last sample.
+ */
+export interface ResourceUsage {
+    /** Percent of one core, so busy multi-threaded trees can exceed 100. */
+    cpu: number;
+    /** Resident memory in bytes. */
+    memory: number;
+    processes: number;
+}
+
+export interface ThresholdExceeded {
+    name: string;
+    kind: 'cpu' | 'memory';
+    usage: ResourceUsage;
+    /** The configured limit, in percent or bytes. */
+    threshold: number;
+}
+
+interface ServiceSamples {
+    usage: ResourceUsage;
+    /** CPU seconds per pid at the previous sample, to compute usage between samples. */
+    cpuTimes: Map<number, number>;
+    sampledAt: number;
+    /** When CPU went over the threshold, while it stays there. */
+    cpuHighSince?: number;
+    warned: Set<'cpu' | 'memory'>;
+}
+
+// Compiles briefly max out the CPU, only warn about load that lasts
+const CPU_SUSTAINED_MS = 30000;
+
+/**
+ * Periodically samples CPU and memory of every running service's process tree and reports
+ * services that go over the configured thresholds.
+ */
+export class ResourceMonitor {
+    private static instance: ResourceMonitor;
+    private services: Map<string, ServiceSamples> = new Map();
+    private timer: NodeJS.Timeout | undefined;
+    private getPids: () => Map<string, number> = () => new Map();
+    private readonly sampleEmitter = new vscode.EventEmitter<void>();
+    private readonly thresholdEmitter = new vscode.EventEmitter<ThresholdExceeded>();
+
+    /**
+     * Fires after each round of samples.
+     */
+    public readonly onDidSample = this.sampleEmitter.event;
+
+    /**
+     * Fires once when a service goes over a threshold, and again only after it has been back under it.
+     */
+    public readonly onDidExceedThreshold = this.thresholdEmitter.event;
+
+    private constructor() { }
+
+    public static getInstance(): ResourceMonitor {
+        if (!ResourceMonitor.instance) {
+            ResourceMonitor.instance = new ResourceMonitor();
+        }
+        return ResourceMonitor.instance;
+    }
+
+    /**
+     * Starts sampling. getPids returns the root pid of each running service.
+     */
+    public start(getPids: () => Map<string, number>): void {
+        this.stop();
+        this.getPids = getPids;
+        this.schedule();
+    }
+
+    public stop(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.services.clear();
+    }
+
+    public getUsage(name: string): ResourceUsage | undefined {
+        return this.services.get(name)?.usage;
+    }
+
+    /**
+     * Formats usage like "CPU 12% · 1.4 GB (9 processes)".
+     */
+    public static describe(usage: ResourceUsage): string {
+        const processes = usage.processes === 1 ? '1 process' : `${usage.processes} processes`;
+        return `CPU ${Math.round(usage.cpu)}% · ${ResourceMonitor.formatBytes(usage.memory)} (${processes})`;
+    }
+
+    public static formatBytes(bytes: number): string {
+        if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+        return `${Math.round(bytes / 1024 ** 2)} MB`;
+    }
+
+    private schedule(): void {
+        const interval = vscode.workspace.getConfiguration('projectStarter').get<number>('resources.interval') || 5000;
+        this.timer = setTimeout(async () => {
+            await this.sample();
+            if (this.timer) this.schedule();
+        }, interval);
+    }
+
+    private async sample(): Promise<void> {
+        const running = this.getPids();
+        for (const name of this.services.keys()) {
+            if (!running.has(name)) this.services.delete(name);
+        }
+        if (running.size === 0) return;
+
+        for (const [name, rootPid] of running) {
+            const tree = await ProcessUtils.getProcessTree(rootPid);
+            const samples = await ProcessUtils.sampleProcesses(tree);
+            const now = Date.now();
+            const previous = this.services.get(name);
+
+            // Processes that are new since the last sample only count from the next one
+            let cpuSeconds = 0;
+            let memory = 0;
+            const cpuTimes = new Map<number, number>();
+            for (const [pid, sample] of samples) {
+                cpuTimes.set(pid, sample.cpuTime);
+                memory += sample.rss;
+                const before = previous?.cpuTimes.get(pid);
+                if (before !== undefined) {
+                    cpuSeconds += Math.max(0, sample.cpuTime - before);
+                }
+            }
+            const elapsed = previous ? (now - previous.sampledAt) / 1000 : 0;
+
+            const entry: ServiceSamples = {
+                usage: { cpu: elapsed > 0 ? cpuSeconds / elapsed * 100 : 0, memory, processes: samples.size },
+                cpuTimes,
+                sampledAt: now,
+                cpuHighSince: previous?.cpuHighSince,
+                warned: previous?.warned || new Set()
+            };
+            this.services.set(name, entry);
+            this.checkThresholds(name, entry);
+        }
+        this.sampleEmitter.fire();
+    }
+
+    private checkThresholds(name: string, entry: ServiceSamples): void {
+        const config = vscode.workspace.getConfiguration('projectStarter');
+        // Settings are in percent and megabytes, 0 turns a check off
+        const cpuThreshold = config.get<number>('resources.cpuThreshold') ?? 90;
+        const memoryThreshold = (config.get<number>('resources.memoryThreshold') ?? 2048) * 1024 * 1024;
+
+        const cpuHigh = cpuThreshold > 0 && entry.usage.cpu >= cpuThreshold;
+        entry.cpuHighSince = cpuHigh ? entry.cpuHighSince ?? entry.sampledAt : undefined;
+        this.report(name, entry, 'cpu', cpuThreshold,
+            entry.cpuHighSince !== undefined && entry.sampledAt - entry.cpuHighSince >= CPU_SUSTAINED_MS, cpuHigh);
+
+        const memoryHigh = memoryThreshold > 0 && entry.usage.memory >= memoryThreshold;
+        this.report(name, entry, 'memory', memoryThreshold, memoryHigh, memoryHigh);
+    }
+
+    /**
+     * Fires a warning when a limit is exceeded and re-arms it once usage is below the limit again.
+     */
+    private report(name: string, entry: ServiceSamples, kind: 'cpu' | 'memory', threshold: number, exceeded: boolean, high: boolean): void {
+        if (!high) {
+            entry.warned.delete(kind);
+            return;
+        }
+        if (!exceeded || entry.warned.has(kind)) return;
+
+        entry.warned.add(kind);
+        LogProvider.getInstance().warn(name, `${kind === 'cpu' ? 'CPU' : 'Memory'} usage over threshold: ${ResourceMonitor.describe(entry.usage)}`, {
+            service: name,
+            cpu: Math.round(entry.usage.cpu),
+            memory: entry.usage.memory
+        });
+        this.thresholdEmitter.fire({ name, kind, usage: entry.usage, threshold });
+    }
+}
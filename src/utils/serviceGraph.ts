@@ -0,0 +1,45 @@
+import { ServiceConfig } from '../providers/configurationProvider';
+
+export class ServiceGraph {
+    /**
+     * Orders services so that every service comes after the services it depends on.
+     * Throws when a dependency is unknown or the dependencies form a cycle.
+     */
+    public static getStartupOrder(services: ServiceConfig[]): ServiceConfig[] {
+        const byName = new Map(services.map(s => [s.name, s]));
+        const ordered: ServiceConfig[] = [];
+        const visited = new Set<string>();
+        const visiting: string[] = [];
+
+        const visit = (service: ServiceConfig) => {
+            if (visited.has(service.name)) return;
+            if (visiting.includes(service.name)) {
+                const cycle = [...visiting.slice(visiting.indexOf(service.name)), service.name];
+                throw new Error(`Circular service dependency: ${cycle.join(' → ')}`);
+            }
+
+            visiting.push(service.name);
+            for (const dependency of service.dependsOn) {
+                const target = byName.get(dependency);
+                if (!target) {
+                    throw new Error(`Service "${service.name}" depends on unknown service "${dependency}".`);
+                }
+                visit(target);
+            }
+            visiting.pop();
+
+            visited.add(service.name);
+            ordered.push(service);
+        };
+
+        services.forEach(visit);
+        return ordered;
+    }
+
+    /**
+     * Returns the services that depend directly on the given one.
+     */
+    public static getDependents(services: ServiceConfig[], name: string): ServiceConfig[] {
+        return services.filter(s => s.dependsOn.includes(name));
+    }
+}
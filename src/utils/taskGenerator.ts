@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { ProjectConfig } from '../providers/configurationProvider';
-import { getStartCommand } from './frameworkCommands';
+import { getServiceCommand } from './frameworkCommands';
 
 export class TaskGenerator {
     public static async generateTasks(config: ProjectConfig, workspaceRoot: string): Promise<void> {
@@ -13,43 +13,28 @@ export class TaskGenerator {
             fs.mkdirSync(vscodeDir);
         }
 
-        const frontendCmd = getStartCommand(config.frontend.framework, 'frontend', config.frontend.customCommand);
-        const backendCmd = getStartCommand(config.backend.framework, 'backend', config.backend.customCommand);
+        const serviceTasks = config.services.map(service => ({
+            label: `Start ${service.name}`,
+            type: "shell",
+            command: getServiceCommand(service),
+            options: {
+                cwd: service.folder
+            },
+            group: "none",
+            presentation: {
+                reveal: "always",
+                panel: "dedicated",
+                group: "servers"
+            }
+        }));
 
         const tasksConfig = {
             version: "2.0.0",
             tasks: [
-                {
-                    label: "Start Frontend",
-                    type: "shell",
-                    command: frontendCmd,
-                    options: {
-                        cwd: path.join(workspaceRoot, config.frontend.path)
-                    },
-                    group: "none",
-                    presentation: {
-                        reveal: "always",
-                        panel: "dedicated",
-                        group: "servers"
-                    }
-                },
-                {
-                    label: "Start Backend",
-                    type: "shell",
-                    command: backendCmd,
-                    options: {
-                        cwd: path.join(workspaceRoot, config.backend.path)
-                    },
-                    group: "none",
-                    presentation: {
-                        reveal: "always",
-                        panel: "dedicated",
-                        group: "servers"
-                    }
-                },
+                ...serviceTasks,
                 {
                     label: "Start All Servers",
-                    dependsOn: ["Start Frontend", "Start Backend"],
+                    dependsOn: serviceTasks.map(task => task.label),
                     group: {
                         kind: "build",
                         isDefault: true
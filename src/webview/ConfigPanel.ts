@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { ConfigurationProvider } from '../providers/configurationProvider';
+import { ConfigurationProvider, ProjectConfig, ServiceConfig, ServiceEntry } from '../providers/configurationProvider';
+import { FRONTEND_FRAMEWORKS, BACKEND_FRAMEWORKS } from '../utils/frameworkCommands';
 import { Detector } from '../utils/detector';
 import { TemplateGenerator, TEMPLATES } from '../utils/templateGenerator';
 import { TaskGenerator } from '../utils/taskGenerator';
@@ -8,15 +9,29 @@ import { EnvManager } from '../utils/envManager';
 import { GitHubUtils } from '../utils/githubUtils';
 import { TailwindUtils } from '../utils/tailwindUtils';
 import { LogProvider } from '../providers/logProvider';
+import { TerminalProvider } from '../providers/terminalProvider';
+import { HealthChecker, sparkline } from '../utils/healthChecker';
+import { ResourceMonitor } from '../utils/resourceMonitor';
+import { MockServer } from '../utils/mockServer';
+
+const PROFILE_LABELS: Record<string, string> = { dev: 'Development', prod: 'Production', test: 'Testing' };
+
+/**
+ * Escapes a value for HTML text and quoted attributes.
+ */
+function esc(value: unknown): string {
+    return String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
 
 export class ConfigPanel {
     public static currentPanel: ConfigPanel | undefined;
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
     private readonly _configProvider: ConfigurationProvider;
+    private readonly _terminalProvider: TerminalProvider;
     private _disposables: vscode.Disposable[] = [];
 
-    public static createOrShow(extensionUri: vscode.Uri, configProvider: ConfigurationProvider) {
+    public static createOrShow(extensionUri: vscode.Uri, configProvider: ConfigurationProvider, terminalProvider: TerminalProvider) {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
             : undefined;
@@ -38,38 +53,32 @@ export class ConfigPanel {
             }
         );
 
-        ConfigPanel.currentPanel = new ConfigPanel(panel, extensionUri, configProvider);
+        ConfigPanel.currentPanel = new ConfigPanel(panel, extensionUri, configProvider, terminalProvider);
     }
 
-    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, configProvider: ConfigurationProvider) {
+    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, configProvider: ConfigurationProvider, terminalProvider: TerminalProvider) {
         this._panel = panel;
         this._extensionUri = extensionUri;
         this._configProvider = configProvider;
+        this._terminalProvider = terminalProvider;
 
         // Register message listener BEFORE update to avoid race conditions
         this._panel.webview.onDidReceiveMessage(
             async (message) => {
-                LogProvider.getInstance().log('DASHBOARD', `Action: ${message.command}`);
+                LogProvider.getInstance().debug('DASHBOARD', `Action: ${message.command}`);
                 try {
                     switch (message.command) {
-                        case 'selectFrontendFolder':
-                            await this._selectFolder('frontend');
-                            break;
-                        case 'selectBackendFolder':
-                            await this._selectFolder('backend');
+                        case 'selectServiceFolder':
+                            await this._selectFolder(message.index);
                             break;
-                        case 'setFrontendFramework':
-                            await this._configProvider.setFrontendFramework(message.value);
+                        case 'updateService':
+                            await this._handleUpdateService(message.index, message.field, message.value);
                             break;
-                        case 'setBackendFramework':
-                            await this._configProvider.setBackendFramework(message.value);
+                        case 'addService':
+                            await this._handleAddService();
                             break;
-                        case 'setCustomCommand':
-                            if (message.type === 'frontend') {
-                                await this._configProvider.setFrontendCustomCommand(message.value);
-                            } else {
-                                await this._configProvider.setBackendCustomCommand(message.value);
-                            }
+                        case 'removeService':
+                            await this._handleRemoveService(message.index);
                             break;
                         case 'startServers':
                             vscode.commands.executeCommand('projectStarter.start');
@@ -77,8 +86,11 @@ export class ConfigPanel {
                         case 'stopServers':
                             vscode.commands.executeCommand('projectStarter.stop');
                             break;
+                        case 'selectProjectFolder':
+                            vscode.commands.executeCommand('projectStarter.selectProjectFolder');
+                            break;
                         case 'setActiveProfile':
-                            await this._configProvider.setActiveProfile(message.value);
+                            await vscode.commands.executeCommand('projectStarter.switchProfile', message.value);
                             break;
                         case 'setProfileCommand':
                             await this._configProvider.setProfileCommand(message.profile, message.type, message.value);
@@ -97,10 +109,10 @@ export class ConfigPanel {
                             await this._handleGenerateTasks();
                             break;
                         case 'getEnv':
-                            await this._handleGetEnv(message.type || message.value);
+                            await this._handleGetEnv(message.index);
                             break;
                         case 'saveEnv':
-                            await this._handleSaveEnv(message.type, message.env);
+                            await this._handleSaveEnv(message.index, message.env);
                             break;
                         case 'githubInit':
                             await this._handleGithubInit();
@@ -109,7 +121,10 @@ export class ConfigPanel {
                             await this._handleGithubBoilerplate();
                             break;
                         case 'setupTailwind':
-                            await this._handleSetupTailwind();
+                            await this._handleSetupTailwind(message.index);
+                            break;
+                        case 'getRuntimeState':
+                            this._postRuntimeState();
                             break;
                         case 'refresh':
                             this._update();
@@ -123,20 +138,43 @@ export class ConfigPanel {
             this._disposables
         );
 
-        // Auto-refresh webview when configuration changes
-        vscode.workspace.onDidChangeConfiguration(e => {
-            if (e.affectsConfiguration('projectStarter')) {
-                this._update();
-            }
-        }, null, this._disposables);
+        // Auto-refresh webview when settings or the repo config file change
+        this._configProvider.onDidChange(() => this._update(), null, this._disposables);
+
+        // Keep run state and restart history live without re-rendering the page
+        this._terminalProvider.onDidChangeState(() => this._postRuntimeState(), null, this._disposables);
+        HealthChecker.getInstance().onDidCheck(() => this._postRuntimeState(), null, this._disposables);
+        ResourceMonitor.getInstance().onDidSample(() => this._postRuntimeState(), null, this._disposables);
+        MockServer.getInstance().onDidChangeState(() => this._postRuntimeState(), null, this._disposables);
 
         this._update();
         this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
     }
 
+    private _postRuntimeState() {
+        const state = this._configProvider.getConfig().services.map(service => {
+            const stats = HealthChecker.getInstance().getStats(service.name);
+            const usage = ResourceMonitor.getInstance().getUsage(service.name);
+            return {
+                running: this._terminalProvider.isRunning(service.name),
+                mock: MockServer.getInstance().isRunning(service.name),
+                uptime: this._terminalProvider.getUptime(service.name),
+                restarts: this._terminalProvider.getRestartHistory(service.name),
+                health: stats && {
+                    healthyFor: stats.healthySince !== undefined ? Date.now() - stats.healthySince : undefined,
+                    uptimePercent: stats.uptimePercent,
+                    averageLatency: stats.averageLatency,
+                    sparkline: sparkline(stats.latencies)
+                },
+                resources: usage && ResourceMonitor.describe(usage)
+            };
+        });
+        this._panel.webview.postMessage({ command: 'runtimeState', state });
+    }
+
     private async _handleGenerateProject(templateId: string) {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
+        const root = this._configProvider.getRoot();
+        if (!root) {
             vscode.window.showErrorMessage('Please open a workspace folder first to generate a project inside it.');
             return;
         }
@@ -145,7 +183,7 @@ export class ConfigPanel {
             canSelectFiles: false,
             canSelectFolders: true,
             canSelectMany: false,
-            defaultUri: vscode.Uri.file(workspaceFolders[0].uri.fsPath),
+            defaultUri: vscode.Uri.file(root),
             openLabel: 'Select Generation Directory',
             title: 'Select where to scaffold the new project'
         });
@@ -159,73 +197,134 @@ export class ConfigPanel {
         }
     }
 
-    private async _handleGetEnv(type: 'frontend' | 'backend') {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) return;
-        const config = this._configProvider.getConfig();
-        const relPath = type === 'frontend' ? config.frontend.path : config.backend.path;
-        if (!relPath) return;
-        const envPath = path.join(workspaceFolders[0].uri.fsPath, relPath, '.env');
+    private _getService(index: number): ServiceConfig | undefined {
+        return this._configProvider.getConfig().services[index];
+    }
+
+    private async _handleUpdateService(index: number, field: string, value: any) {
+        const service = this._getService(index);
+        if (!service) return;
+
+        const changes: ServiceEntry = {};
+        switch (field) {
+            case 'name':
+                if (!value || !String(value).trim()) return;
+                changes.name = String(value).trim();
+                break;
+            case 'framework':
+                changes.framework = value;
+                // The framework decides the side, except for custom commands
+                if (FRONTEND_FRAMEWORKS.some(f => f.value === value && value !== 'custom')) changes.type = 'frontend';
+                if (BACKEND_FRAMEWORKS.some(f => f.value === value && value !== 'custom')) changes.type = 'backend';
+                break;
+            case 'type':
+                changes.type = value === 'frontend' ? 'frontend' : 'backend';
+                break;
+            case 'command':
+                changes.command = value;
+                break;
+            case 'port':
+                changes.port = parseInt(value, 10) || undefined;
+                break;
+            case 'healthPath':
+                changes.healthCheck = { path: value || '/' };
+                break;
+            case 'dependsOn':
+                changes.dependsOn = String(value || '').split(',').map(name => name.trim()).filter(name => name);
+                break;
+            case 'healthEnabled':
+                changes.healthCheck = { enabled: !!value };
+                break;
+            default:
+                return;
+        }
+        await this._configProvider.updateService(service.name, changes);
+    }
+
+    private async _handleAddService() {
+        const name = await vscode.window.showInputBox({
+            prompt: 'Enter a name for the new service',
+            title: 'Add Service',
+            validateInput: value => {
+                if (!value.trim()) return 'Name is required';
+                if (this._configProvider.getConfig().services.some(s => s.name === value.trim())) return 'A service with this name already exists';
+                return undefined;
+            }
+        });
+        if (!name) return;
+
+        await this._configProvider.addService({
+            name: name.trim(),
+            type: 'backend',
+            framework: 'custom'
+        });
+    }
+
+    private async _handleRemoveService(index: number) {
+        const service = this._getService(index);
+        if (!service) return;
+
+        const confirm = await vscode.window.showWarningMessage(`Remove service "${service.name}"?`, 'Remove', 'Cancel');
+        if (confirm === 'Remove') {
+            await this._configProvider.removeService(service.name);
+        }
+    }
+
+    private async _handleGetEnv(index: number) {
+        const service = this._getService(index);
+        if (!service || !service.path) return;
+        const envPath = path.join(service.folder, '.env');
         const env = EnvManager.readEnv(envPath);
-        this._panel.webview.postMessage({ command: 'envData', type, env });
+        this._panel.webview.postMessage({ command: 'envData', index, env });
     }
 
-    private async _handleSaveEnv(type: 'frontend' | 'backend', env: Record<string, string>) {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) return;
-        const config = this._configProvider.getConfig();
-        const relPath = type === 'frontend' ? config.frontend.path : config.backend.path;
-        if (!relPath) return;
-        const envPath = path.join(workspaceFolders[0].uri.fsPath, relPath, '.env');
+    private async _handleSaveEnv(index: number, env: Record<string, string>) {
+        const service = this._getService(index);
+        if (!service || !service.path) return;
+        const envPath = path.join(service.folder, '.env');
         try {
             EnvManager.writeEnv(envPath, env);
-            vscode.window.showInformationMessage(`Successfully saved ${type} .env file!`);
+            vscode.window.showInformationMessage(`Successfully saved ${service.name} .env file!`);
         } catch (error: any) {
             vscode.window.showErrorMessage(`Failed to save .env: ${error.message}`);
         }
     }
 
     private async _handleGithubInit() {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
+        const root = this._configProvider.getRoot();
+        if (!root) {
             vscode.window.showErrorMessage('No workspace folder open. Open a folder to initialize Git.');
             return;
         }
         try {
-            await GitHubUtils.initRepo(workspaceFolders[0].uri.fsPath);
+            await GitHubUtils.initRepo(root);
         } catch (error: any) {
             vscode.window.showErrorMessage(`Git init failed: ${error.message}`);
         }
     }
 
     private async _handleGithubBoilerplate() {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
+        const root = this._configProvider.getRoot();
+        if (!root) {
             vscode.window.showErrorMessage('No workspace folder open. Open a folder to generate GitHub Docs.');
             return;
         }
         try {
-            await GitHubUtils.generateBoilerplate(workspaceFolders[0].uri.fsPath);
+            await GitHubUtils.generateBoilerplate(root);
         } catch (error: any) {
             vscode.window.showErrorMessage(`GitHub Docs generation failed: ${error.message}`);
         }
     }
 
-    private async _handleSetupTailwind() {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) return;
-
-        const config = this._configProvider.getConfig();
-        const frontendPath = config.frontend.path;
-        if (!frontendPath) {
+    private async _handleSetupTailwind(index: number) {
+        const service = this._getService(index);
+        if (!service || !service.path) {
             vscode.window.showErrorMessage('Please select a frontend folder first.');
             return;
         }
 
-        const fullFrontendPath = path.join(workspaceFolders[0].uri.fsPath, frontendPath);
-
         try {
-            await TailwindUtils.setup(fullFrontendPath, config.frontend.framework);
+            await TailwindUtils.setup(service.folder, service.framework);
             vscode.window.showInformationMessage('Tailwind setup initiated!');
         } catch (error: any) {
             vscode.window.showErrorMessage(`Setup failed: ${error.message}`);
@@ -233,33 +332,36 @@ export class ConfigPanel {
     }
 
     private async _handleGenerateTasks() {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) return;
-        await TaskGenerator.generateTasks(this._configProvider.getConfig(), workspaceFolders[0].uri.fsPath);
+        const root = this._configProvider.getRoot();
+        if (!root) return;
+        await TaskGenerator.generateTasks(this._configProvider.getConfig(), root);
     }
 
-    private async _selectFolder(type: 'frontend' | 'backend') {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) return;
+    private async _selectFolder(index: number) {
+        const root = this._configProvider.getRoot();
+        if (!root) return;
+        const service = this._getService(index);
+        if (!service) return;
         const folderUri = await vscode.window.showOpenDialog({
             canSelectFiles: false,
             canSelectFolders: true,
             canSelectMany: false,
-            defaultUri: vscode.Uri.file(workspaceFolders[0].uri.fsPath),
-            openLabel: `Select ${type.charAt(0).toUpperCase() + type.slice(1)} Folder`
+            defaultUri: vscode.Uri.file(service.path ? service.folder : root),
+            openLabel: `Select ${service.name} Folder`
         });
 
         if (folderUri && folderUri.length > 0) {
-            const relPath = path.relative(workspaceFolders[0].uri.fsPath, folderUri[0].fsPath) || '.';
-            if (type === 'frontend') {
-                await this._configProvider.setFrontendPath(relPath);
-                const detected = await Detector.detectFrontend(folderUri[0].fsPath);
-                if (detected) await this._configProvider.setFrontendFramework(detected);
-            } else {
-                await this._configProvider.setBackendPath(relPath);
-                const detected = await Detector.detectBackend(folderUri[0].fsPath);
-                if (detected) await this._configProvider.setBackendFramework(detected);
+            const changes: ServiceEntry = { path: this._configProvider.getServicePath(folderUri[0].fsPath) };
+            const detectedFrontend = await Detector.detectFrontend(folderUri[0].fsPath);
+            const detectedBackend = detectedFrontend ? null : await Detector.detectBackend(folderUri[0].fsPath);
+            if (detectedFrontend) {
+                changes.framework = detectedFrontend;
+                changes.type = 'frontend';
+            } else if (detectedBackend) {
+                changes.framework = detectedBackend;
+                changes.type = 'backend';
             }
+            await this._configProvider.updateService(service.name, changes);
             this._update();
         }
     }
@@ -277,16 +379,66 @@ export class ConfigPanel {
         }
     }
 
-    private _getHtmlForWebview(config: any) {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        let frontendRecommendation = '';
-        let backendRecommendation = '';
+    private _getServiceCardHtml(service: ServiceConfig, index: number) {
+        const recommendation = service.path ? Detector.recommendScript(service.folder) || '' : '';
+        const frameworkOptions = (options: { label: string; value: string }[]) => options
+            .filter(f => f.value !== 'custom')
+            .map(f => `<option value="${f.value}" ${service.framework === f.value ? 'selected' : ''}>${f.label}</option>`)
+            .join('');
 
-        if (workspaceFolders && workspaceFolders.length > 0) {
-            const root = workspaceFolders[0].uri.fsPath;
-            if (config.frontend.path) frontendRecommendation = Detector.recommendScript(path.join(root, config.frontend.path)) || '';
-            if (config.backend.path) backendRecommendation = Detector.recommendScript(path.join(root, config.backend.path)) || '';
-        }
+        return `
+            <div class="glass-card">
+                <div class="card-title">
+                    <span class="card-icon">${service.type === 'frontend' ? '🎨' : '⚙️'}</span>
+                    <input type="text" class="service-name" value="${esc(service.name)}" onchange="update(${index}, 'name', this.value)">
+                    <button class="btn btn-ghost" title="Remove service" onclick="post('removeService', { index: ${index} })">✕</button>
+                </div>
+                <div class="runtime" id="runtime-${index}"></div>
+                <div class="field-group">
+                    <span class="label">Directory</span>
+                    <div class="input-row">
+                        <div class="path-display">${esc(service.path || 'Not set')}</div>
+                        <button class="btn btn-ghost" onclick="post('selectServiceFolder', { index: ${index} })">Browse</button>
+                    </div>
+                </div>
+                <div class="field-group">
+                    <span class="label">Framework</span>
+                    <select onchange="update(${index}, 'framework', this.value)">
+                        <optgroup label="Frontend">${frameworkOptions(FRONTEND_FRAMEWORKS)}</optgroup>
+                        <optgroup label="Backend">${frameworkOptions(BACKEND_FRAMEWORKS)}</optgroup>
+                        <option value="custom" ${service.framework === 'custom' ? 'selected' : ''}>Custom Command</option>
+                    </select>
+                </div>
+                <div class="field-group">
+                    <span class="label">Start Command</span>
+                    <input type="text" id="cmd-${index}" value="${esc(service.command)}" placeholder="Framework default" onchange="update(${index}, 'command', this.value)">
+                    ${recommendation ? `<div class="recommendation" data-cmd="${esc(recommendation)}" onclick="setCmd(${index}, this.dataset.cmd)">💡 Recommended: ${esc(recommendation)}</div>` : ''}
+                </div>
+                <div class="field-group input-row">
+                    <div style="flex:1">
+                        <span class="label">Port</span>
+                        <input type="text" value="${esc(service.port || '')}" placeholder="Default" onchange="update(${index}, 'port', this.value)">
+                    </div>
+                    <div style="flex:2">
+                        <span class="label">Health Check Path</span>
+                        <input type="text" value="${esc(service.healthCheck.path)}" onchange="update(${index}, 'healthPath', this.value)">
+                    </div>
+                </div>
+                <div class="field-group">
+                    <span class="label">Depends On</span>
+                    <input type="text" value="${esc(service.dependsOn.join(', '))}" placeholder="e.g. API, Database" onchange="update(${index}, 'dependsOn', this.value)">
+                </div>
+                ${service.type === 'frontend' ? `
+                    <div class="field-group">
+                        <button class="btn btn-primary" style="width:100%; justify-content: center; background: linear-gradient(to right, #38bdf8, #10b981); color: #0f172a;" onclick="post('setupTailwind', { index: ${index} })">✨ Setup Tailwind CSS</button>
+                    </div>
+                ` : ''}
+            </div>`;
+    }
+
+    private _getHtmlForWebview(config: ProjectConfig) {
+        const folder = this._configProvider.getFolder();
+        const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
 
         return `<!DOCTYPE html>
 <html lang="en">
@@ -400,6 +552,12 @@ export class ConfigPanel {
         .secrets-manager { margin-top: 64px; animation: fadeIn 0.6s ease-out 0.5s both; }
         .secret-field { display: flex; gap: 12px; margin-bottom: 12px; }
         .secret-name { font-weight: 700; color: var(--accent); width: 140px; }
+        .runtime { margin: -12px 0 20px; font-size: 0.875rem; color: var(--text-muted); }
+        .runtime .running { color: var(--success); }
+        .runtime .restarts { color: var(--danger); cursor: help; }
+        .runtime .health, .runtime .latency, .runtime .resources { cursor: help; }
+        .runtime .latency { font-family: var(--vscode-editor-font-family, monospace); }
+        .service-name { flex: 1; font-size: 1.25rem; font-weight: 700; background: transparent; border-color: transparent; padding: 4px 8px; }
 
         .toggle-track { display: flex; align-items: center; gap: 12px; margin: 32px 0; justify-content: center; }
         input[type="checkbox"] { width: 44px; height: 24px; appearance: none; background: var(--border); border-radius: 20px; position: relative; cursor: pointer; transition: 0.3s; }
@@ -419,13 +577,14 @@ export class ConfigPanel {
         <div class="header" style="position: relative;">
             <h1>Project Starter</h1>
             <p>Your premium dashboard for effortless full-stack development</p>
+            ${multiRoot && folder ? `<button class="btn btn-ghost" style="position: absolute; left: 0; top: 0;" title="${esc(folder.uri.fsPath)}" onclick="msg('selectProjectFolder')">📁 ${esc(folder.name)}</button>` : ''}
             <button class="btn btn-ghost" style="position: absolute; right: 0; top: 0;" onclick="msg('refresh')">🔄 Refresh</button>
         </div>
 
         <div class="profile-switcher">
-            <button class="profile-btn ${config.activeProfile === 'dev' ? 'active' : ''}" onclick="msg('setActiveProfile', 'dev')">Development</button>
-            <button class="profile-btn ${config.activeProfile === 'prod' ? 'active' : ''}" onclick="msg('setActiveProfile', 'prod')">Production</button>
-            <button class="profile-btn ${config.activeProfile === 'test' ? 'active' : ''}" onclick="msg('setActiveProfile', 'test')">Testing</button>
+            ${Object.entries(config.profiles).map(([name, profile]) => `
+                <button class="profile-btn ${config.activeProfile === name ? 'active' : ''}" data-profile="${esc(name)}" onclick="msg('setActiveProfile', this.dataset.profile)" title="${profile.extends ? `Extends ${esc(profile.extends)}` : ''}">${esc(PROFILE_LABELS[name] || name)}</button>
+            `).join('')}
         </div>
 
         <div class="main-actions">
@@ -442,62 +601,10 @@ export class ConfigPanel {
         </div>
 
         <div class="dashboard-grid">
-            <!-- Frontend Card -->
-            <div class="glass-card">
-                <div class="card-title"><span class="card-icon">🎨</span> Frontend</div>
-                <div class="field-group">
-                    <span class="label">Directory</span>
-                    <div class="input-row">
-                        <div class="path-display">${config.frontend.path || 'Root'}</div>
-                        <button class="btn btn-ghost" onclick="msg('selectFrontendFolder')">Browse</button>
-                    </div>
-                </div>
-                <div class="field-group">
-                    <span class="label">Framework</span>
-                    <select onchange="msg('setFrontendFramework', this.value)">
-                        <option value="react-vite" ${config.frontend.framework === 'react-vite' ? 'selected' : ''}>React (Vite)</option>
-                        <option value="nextjs" ${config.frontend.framework === 'nextjs' ? 'selected' : ''}>Next.js</option>
-                        <option value="custom" ${config.frontend.framework === 'custom' ? 'selected' : ''}>Custom Command</option>
-                    </select>
-                </div>
-                <div class="field-group">
-                    <button class="btn btn-primary" style="width:100%; justify-content: center; background: linear-gradient(to right, #38bdf8, #10b981); color: #0f172a;" onclick="msg('setupTailwind')">✨ Setup Tailwind CSS</button>
-                </div>
-                ${config.frontend.framework === 'custom' ? `
-                    <div class="field-group">
-                        <span class="label">Start Command</span>
-                        <input type="text" id="fe-cmd" value="${config.frontend.customCommand || ''}" onchange="msg('setCustomCommand', {type:'frontend', value:this.value})">
-                        ${frontendRecommendation ? `<div class="recommendation" onclick="setCmd('frontend', '${frontendRecommendation}')">💡 Recommended: ${frontendRecommendation}</div>` : ''}
-                    </div>
-                ` : ''}
-            </div>
-
-            <!-- Backend Card -->
-            <div class="glass-card">
-                <div class="card-title"><span class="card-icon">⚙️</span> Backend</div>
-                <div class="field-group">
-                    <span class="label">Directory</span>
-                    <div class="input-row">
-                        <div class="path-display">${config.backend.path || 'Root'}</div>
-                        <button class="btn btn-ghost" onclick="msg('selectBackendFolder')">Browse</button>
-                    </div>
-                </div>
-                <div class="field-group">
-                    <span class="label">Framework</span>
-                    <select onchange="msg('setBackendFramework', this.value)">
-                        <option value="express" ${config.backend.framework === 'express' ? 'selected' : ''}>Express</option>
-                        <option value="nestjs" ${config.backend.framework === 'nestjs' ? 'selected' : ''}>NestJS</option>
-                        <option value="fastapi" ${config.backend.framework === 'fastapi' ? 'selected' : ''}>FastAPI</option>
-                        <option value="custom" ${config.backend.framework === 'custom' ? 'selected' : ''}>Custom Command</option>
-                    </select>
-                </div>
-                ${config.backend.framework === 'custom' ? `
-                    <div class="field-group">
-                        <span class="label">Start Command</span>
-                        <input type="text" id="be-cmd" value="${config.backend.customCommand || ''}" onchange="msg('setCustomCommand', {type:'backend', value:this.value})">
-                        ${backendRecommendation ? `<div class="recommendation" onclick="setCmd('backend', '${backendRecommendation}')">💡 Recommended: ${backendRecommendation}</div>` : ''}
-                    </div>
-                ` : ''}
+            ${config.services.map((service, index) => this._getServiceCardHtml(service, index)).join('')}
+            <div class="glass-card empty-state" style="cursor:pointer" onclick="post('addService')">
+                <div class="card-title" style="justify-content:center">➕ Add Service</div>
+                <p>Workers, gateways, additional APIs...</p>
             </div>
         </div>
 
@@ -535,23 +642,21 @@ export class ConfigPanel {
         <div class="secrets-manager">
             <span class="section-tag">Secrets & Environment</span>
             <div class="dashboard-grid">
-                <div class="glass-card">
-                    <div class="card-title" style="font-size: 1.125rem">Frontend .env</div>
-                    <div id="fe-secrets" class="secrets-list">Loading...</div>
-                    <button class="btn btn-ghost" style="margin-top:16px; width:100%" onclick="saveSecrets('frontend')">Save Changes</button>
-                </div>
-                <div class="glass-card">
-                    <div class="card-title" style="font-size: 1.125rem">Backend .env</div>
-                    <div id="be-secrets" class="secrets-list">Loading...</div>
-                    <button class="btn btn-ghost" style="margin-top:16px; width:100%" onclick="saveSecrets('backend')">Save Changes</button>
-                </div>
+                ${config.services.map((service, index) => `
+                    <div class="glass-card">
+                        <div class="card-title" style="font-size: 1.125rem">${esc(service.name)} .env</div>
+                        <div id="secrets-${index}" class="secrets-list">Loading...</div>
+                        <button class="btn btn-ghost" style="margin-top:16px; width:100%" onclick="saveSecrets(${index})">Save Changes</button>
+                    </div>
+                `).join('')}
             </div>
         </div>
     </div>
 
     <script>
         const vscode = acquireVsCodeApi();
-        const currentEnvs = { frontend: {}, backend: {} };
+        const currentEnvs = {};
+        const serviceCount = ${config.services.length};
 
         function msg(command, value = null) {
             if (value && value.type) {
@@ -561,45 +666,97 @@ export class ConfigPanel {
             }
         }
 
-        function setCmd(type, val) {
-            const el = document.getElementById(type === 'frontend' ? 'fe-cmd' : 'be-cmd');
+        function post(command, data = {}) {
+            vscode.postMessage({ command, ...data });
+        }
+
+        function update(index, field, value) {
+            post('updateService', { index, field, value });
+        }
+
+        function setCmd(index, val) {
+            const el = document.getElementById('cmd-' + index);
             if (el) el.value = val;
-            msg('setCustomCommand', {type, value: val});
+            update(index, 'command', val);
         }
 
         window.addEventListener('message', event => {
             const m = event.data;
             if (m.command === 'envData') {
-                currentEnvs[m.type] = m.env;
-                renderSecrets(m.type);
+                currentEnvs[m.index] = m.env;
+                renderSecrets(m.index);
+            } else if (m.command === 'runtimeState') {
+                m.state.forEach(renderRuntime);
             }
         });
 
-        function renderSecrets(type) {
-            const container = document.getElementById(type === 'frontend' ? 'fe-secrets' : 'be-secrets');
-            const env = currentEnvs[type];
+        function formatDuration(ms) {
+            const minutes = Math.floor(ms / 60000);
+            if (minutes < 1) return Math.floor(ms / 1000) + 's';
+            if (minutes < 60) return minutes + 'm';
+            return Math.floor(minutes / 60) + 'h ' + (minutes % 60) + 'm';
+        }
+
+        function renderRuntime(state, index) {
+            const el = document.getElementById('runtime-' + index);
+            if (!el) return;
+            let html = state.mock
+                ? '<span class="running">● Running as mock</span>'
+                : state.running
+                ? '<span class="running">● Running</span>' + (state.uptime !== undefined ? ' · up ' + formatDuration(state.uptime) : '')
+                : '○ Stopped';
+            if (state.restarts.length > 0) {
+                const history = state.restarts
+                    .map(r => new Date(r.time).toLocaleTimeString() + ': exit code ' + r.exitCode + ', attempt ' + r.attempt + ', after ' + (r.delay / 1000) + 's')
+                    .join('&#10;');
+                html += ' · <span class="restarts" title="' + history + '">↻ ' + state.restarts.length + ' restart(s)</span>';
+            }
+            if ((state.running || state.mock) && state.health) {
+                const h = state.health;
+                html += ' · <span class="health" title="Uptime over recent health checks">'
+                    + (h.healthyFor !== undefined ? 'healthy for ' + formatDuration(h.healthyFor) + ', ' : '')
+                    + h.uptimePercent + '%</span>';
+                if (h.averageLatency !== undefined) {
+                    html += ' · <span class="latency" title="Response time of recent checks">' + h.sparkline + ' ' + h.averageLatency + 'ms</span>';
+                }
+            }
+            if (state.running && state.resources) {
+                html += ' · <span class="resources" title="CPU and memory of the whole process tree">' + state.resources + '</span>';
+            }
+            el.innerHTML = html;
+        }
+
+        function esc(value) {
+            return String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+        }
+
+        function renderSecrets(index) {
+            const container = document.getElementById('secrets-' + index);
+            const env = currentEnvs[index];
             let html = '';
             for (const [k, v] of Object.entries(env)) {
                 html += \`
                     <div class="secret-field">
-                        <span class="secret-name">\${k}</span>
-                        <input type="text" value="\${v}" onchange="updateSecret('\${type}', '\${k}', this.value)">
+                        <span class="secret-name">\${esc(k)}</span>
+                        <input type="text" value="\${esc(v)}" data-key="\${esc(k)}" onchange="updateSecret(\${index}, this.dataset.key, this.value)">
                     </div>
                 \`;
             }
             container.innerHTML = html || '<div class="empty-state">No .env found</div>';
         }
 
-        function updateSecret(type, key, value) {
-            currentEnvs[type][key] = value;
+        function updateSecret(index, key, value) {
+            currentEnvs[index][key] = value;
         }
 
-        function saveSecrets(type) {
-            vscode.postMessage({ command: 'saveEnv', type, env: currentEnvs[type] });
+        function saveSecrets(index) {
+            vscode.postMessage({ command: 'saveEnv', index, env: currentEnvs[index] || {} });
         }
 
-        msg('getEnv', 'frontend');
-        msg('getEnv', 'backend');
+        for (let i = 0; i < serviceCount; i++) {
+            post('getEnv', { index: i });
+        }
+        post('getRuntimeState');
     </script>
 </body>
 </html>`;
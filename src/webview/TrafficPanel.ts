@@ -0,0 +1,312 @@
+import * as vscode from 'vscode';
+import { DevProxy } from '../utils/devProxy';
+import { LogProvider } from '../providers/logProvider';
+
+/**
+ * Lists the requests that went through the dev proxy and lets them be replayed, optionally edited.
+ */
+export class TrafficPanel {
+    public static currentPanel: TrafficPanel | undefined;
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+
+    public static createOrShow() {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (TrafficPanel.currentPanel) {
+            TrafficPanel.currentPanel._panel.reveal(column);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'projectStarterTraffic',
+            '🔍 Traffic Inspector',
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        TrafficPanel.currentPanel = new TrafficPanel(panel);
+    }
+
+    private constructor(panel: vscode.WebviewPanel) {
+        this._panel = panel;
+        const proxy = DevProxy.getInstance();
+
+        this._panel.webview.onDidReceiveMessage(
+            async (message) => {
+                LogProvider.getInstance().debug('DASHBOARD', `Traffic action: ${message.command}`);
+                switch (message.command) {
+                    case 'ready':
+                        this._postState();
+                        break;
+                    case 'clear':
+                        proxy.clearExchanges();
+                        this._postState();
+                        break;
+                    case 'replay':
+                        try {
+                            const exchange = await proxy.replay(message.request);
+                            this._panel.webview.postMessage({ command: 'select', id: exchange.id });
+                        } catch (error: any) {
+                            vscode.window.showErrorMessage(`Replay failed: ${error.message}`);
+                        }
+                        break;
+                }
+            },
+            null,
+            this._disposables
+        );
+
+        proxy.onDidRecordExchange(exchange => this._panel.webview.postMessage({ command: 'exchange', exchange }), null, this._disposables);
+        proxy.onDidChangeState(() => this._postState(), null, this._disposables);
+
+        this._panel.webview.html = this._getHtmlForWebview();
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+    }
+
+    private _postState() {
+        const proxy = DevProxy.getInstance();
+        this._panel.webview.postMessage({ command: 'state', url: proxy.getUrl(), exchanges: proxy.getExchanges() });
+    }
+
+    public dispose() {
+        TrafficPanel.currentPanel = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const x = this._disposables.pop();
+            if (x) x.dispose();
+        }
+    }
+
+    private _getHtmlForWebview() {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>
+        :root {
+            --bg: #0f172a;
+            --card-bg: rgba(30, 41, 59, 0.7);
+            --accent: #38bdf8;
+            --success: #10b981;
+            --warning: #f59e0b;
+            --danger: #ef4444;
+            --text: #f8fafc;
+            --text-muted: #94a3b8;
+            --border: rgba(255, 255, 255, 0.1);
+        }
+
+        * { box-sizing: border-box; margin: 0; padding: 0; }
+        body { font-family: 'Inter', -apple-system, sans-serif; background: var(--bg); color: var(--text); height: 100vh; display: flex; flex-direction: column; font-size: 0.875rem; }
+
+        .toolbar { display: flex; gap: 8px; padding: 12px; border-bottom: 1px solid var(--border); align-items: center; }
+        .toolbar .status { color: var(--text-muted); margin-left: auto; }
+        select, input[type="text"], textarea {
+            padding: 6px 10px; background: rgba(0, 0, 0, 0.2); border: 1px solid var(--border);
+            border-radius: 6px; color: var(--text); font-size: 0.875rem; outline: none;
+        }
+        select:focus, input[type="text"]:focus, textarea:focus { border-color: var(--accent); }
+        textarea { width: 100%; font-family: var(--vscode-editor-font-family, monospace); resize: vertical; }
+        #filter-text { flex: 1; }
+
+        .btn { padding: 6px 14px; border-radius: 6px; border: none; font-weight: 700; cursor: pointer; font-size: 0.8rem; }
+        .btn-ghost { background: var(--border); color: var(--text); }
+        .btn-ghost:hover { background: rgba(255, 255, 255, 0.2); }
+        .btn-primary { background: var(--accent); color: var(--bg); }
+        .btn:disabled { opacity: 0.5; cursor: default; }
+
+        .main { flex: 1; display: flex; min-height: 0; }
+        .list { flex: 1; overflow-y: auto; border-right: 1px solid var(--border); }
+        .details { flex: 1; overflow-y: auto; padding: 16px; }
+
+        table { width: 100%; border-collapse: collapse; }
+        th { position: sticky; top: 0; background: var(--bg); text-align: left; color: var(--text-muted); font-weight: 600; padding: 6px 10px; border-bottom: 1px solid var(--border); }
+        td { padding: 6px 10px; border-bottom: 1px solid var(--border); white-space: nowrap; }
+        td.path { max-width: 320px; overflow: hidden; text-overflow: ellipsis; font-family: var(--vscode-editor-font-family, monospace); }
+        tr.row { cursor: pointer; }
+        tr.row:hover { background: var(--card-bg); }
+        tr.row.selected { background: rgba(56, 189, 248, 0.15); }
+        .s2 { color: var(--success); }
+        .s3 { color: var(--accent); }
+        .s4 { color: var(--warning); }
+        .s5, .error { color: var(--danger); }
+        .replayed { color: var(--text-muted); }
+
+        h3 { font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.05em; color: var(--text-muted); margin: 16px 0 6px; }
+        .summary { font-family: var(--vscode-editor-font-family, monospace); font-size: 1rem; margin-bottom: 8px; word-break: break-all; }
+        .headers div { font-family: var(--vscode-editor-font-family, monospace); word-break: break-all; }
+        .headers span { color: var(--accent); }
+        pre { background: rgba(0, 0, 0, 0.2); border: 1px solid var(--border); border-radius: 6px; padding: 10px; white-space: pre-wrap; word-break: break-all; max-height: 320px; overflow-y: auto; }
+        .actions { display: flex; gap: 8px; margin: 12px 0; }
+        .editor { display: none; }
+        .editor.open { display: block; }
+        .editor .input-row { display: flex; gap: 8px; margin-bottom: 8px; }
+        .empty-state { color: var(--text-muted); padding: 24px; text-align: center; }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <input type="text" id="filter-text" placeholder="Filter by path" oninput="renderList()">
+        <select id="filter-method" onchange="renderList()">
+            <option value="">All methods</option>
+            <option>GET</option><option>POST</option><option>PUT</option><option>PATCH</option><option>DELETE</option><option>OPTIONS</option>
+        </select>
+        <select id="filter-status" onchange="renderList()">
+            <option value="">All statuses</option>
+            <option value="2">2xx</option><option value="3">3xx</option><option value="4">4xx</option><option value="5">5xx</option>
+            <option value="error">Failed</option>
+        </select>
+        <select id="filter-service" onchange="renderList()"><option value="">All services</option></select>
+        <button class="btn btn-ghost" onclick="vscode.postMessage({ command: 'clear' })">Clear</button>
+        <span class="status" id="proxy-status"></span>
+    </div>
+    <div class="main">
+        <div class="list" id="list"></div>
+        <div class="details" id="details"><div class="empty-state">Select a request to see its details.</div></div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        let exchanges = [];
+        let selectedId;
+
+        window.addEventListener('message', event => {
+            const m = event.data;
+            if (m.command === 'state') {
+                exchanges = m.exchanges;
+                document.getElementById('proxy-status').textContent = m.url ? 'Proxy on ' + m.url : 'Proxy not running';
+                renderList();
+                renderDetails();
+            } else if (m.command === 'exchange') {
+                exchanges.push(m.exchange);
+                if (exchanges.length > 200) exchanges.shift();
+                renderList();
+            } else if (m.command === 'select') {
+                select(m.id);
+            }
+        });
+
+        function esc(value) {
+            return String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+        }
+
+        function statusClass(x) {
+            return x.error ? 'error' : 's' + String(x.status)[0];
+        }
+
+        function matchesFilters(x) {
+            const text = document.getElementById('filter-text').value.toLowerCase();
+            const method = document.getElementById('filter-method').value;
+            const status = document.getElementById('filter-status').value;
+            const service = document.getElementById('filter-service').value;
+            if (text && !x.url.toLowerCase().includes(text)) return false;
+            if (method && x.method !== method) return false;
+            if (service && x.service !== service) return false;
+            if (status === 'error') return !!x.error;
+            if (status && (x.error || String(x.status)[0] !== status)) return false;
+            return true;
+        }
+
+        function renderServiceFilter() {
+            const selectEl = document.getElementById('filter-service');
+            const current = selectEl.value;
+            const names = [...new Set(exchanges.map(x => x.service))];
+            selectEl.innerHTML = '<option value="">All services</option>'
+                + names.map(n => '<option ' + (n === current ? 'selected' : '') + '>' + esc(n) + '</option>').join('');
+        }
+
+        function renderList() {
+            renderServiceFilter();
+            const rows = exchanges.filter(matchesFilters).reverse().map(x =>
+                '<tr class="row ' + (x.id === selectedId ? 'selected' : '') + '" onclick="select(' + x.id + ')">'
+                + '<td>' + new Date(x.time).toLocaleTimeString() + '</td>'
+                + '<td>' + esc(x.method) + '</td>'
+                + '<td class="path" title="' + esc(x.url) + '">' + esc(x.url) + (x.replayOf ? ' <span class="replayed">↻</span>' : '') + '</td>'
+                + '<td class="' + statusClass(x) + '">' + (x.error ? 'failed' : x.status) + '</td>'
+                + '<td>' + x.duration + 'ms</td>'
+                + '<td>' + esc(x.service) + '</td>'
+                + '</tr>').join('');
+            document.getElementById('list').innerHTML = rows
+                ? '<table><tr><th>Time</th><th>Method</th><th>Path</th><th>Status</th><th>Duration</th><th>Service</th></tr>' + rows + '</table>'
+                : '<div class="empty-state">No requests yet. Open the app through the proxy to see its traffic here.</div>';
+        }
+
+        function renderHeaders(headers) {
+            return '<div class="headers">' + Object.entries(headers || {})
+                .map(([k, v]) => '<div><span>' + esc(k) + ':</span> ' + esc(Array.isArray(v) ? v.join(', ') : v) + '</div>')
+                .join('') + '</div>';
+        }
+
+        function select(id) {
+            selectedId = id;
+            renderList();
+            renderDetails();
+        }
+
+        function renderDetails() {
+            const x = exchanges.find(e => e.id === selectedId);
+            const el = document.getElementById('details');
+            if (!x) {
+                el.innerHTML = '<div class="empty-state">Select a request to see its details.</div>';
+                return;
+            }
+            const editableHeaders = Object.entries(x.requestHeaders)
+                .filter(([k]) => !k.startsWith('x-forwarded-'))
+                .map(([k, v]) => k + ': ' + (Array.isArray(v) ? v.join(', ') : v))
+                .join('\\n');
+
+            el.innerHTML =
+                '<div class="summary">' + esc(x.method) + ' ' + esc(x.url) + '</div>'
+                + '<div class="' + statusClass(x) + '">' + (x.error ? 'Failed: ' + esc(x.error) : x.status) + ' · ' + x.duration + 'ms · ' + esc(x.service)
+                + (x.replayOf ? ' · replay of #' + x.replayOf : '') + '</div>'
+                + '<div class="actions">'
+                + '<button class="btn btn-primary" onclick="replay(false)"' + (x.requestTruncated ? ' disabled title="The request body was too large to keep"' : '') + '>↻ Replay</button>'
+                + '<button class="btn btn-ghost" onclick="document.getElementById(\\'editor\\').classList.toggle(\\'open\\')"'
+                + (x.requestTruncated || x.requestBinary ? ' disabled title="Only complete text bodies can be edited"' : '') + '>Edit &amp; Replay</button>'
+                + '</div>'
+                + '<div class="editor" id="editor">'
+                + '<div class="input-row"><input type="text" id="edit-method" value="' + esc(x.method) + '" style="width:100px">'
+                + '<input type="text" id="edit-url" value="' + esc(x.url) + '" style="flex:1"></div>'
+                + '<h3>Headers</h3><textarea id="edit-headers" rows="6">' + esc(editableHeaders) + '</textarea>'
+                + '<h3>Body</h3><textarea id="edit-body" rows="8">' + esc(x.requestBody) + '</textarea>'
+                + '<div class="actions"><button class="btn btn-primary" onclick="replay(true)">Send</button></div>'
+                + '</div>'
+                + '<h3>Request Headers</h3>' + renderHeaders(x.requestHeaders)
+                + (x.requestBody ? '<h3>Request Body</h3><pre>' + esc(x.requestBody) + '</pre>' : '')
+                + (x.responseHeaders ? '<h3>Response Headers</h3>' + renderHeaders(x.responseHeaders) : '')
+                + (x.responseBody ? '<h3>Response Body</h3><pre>' + esc(x.responseBody) + '</pre>' : '');
+        }
+
+        function replay(edited) {
+            const x = exchanges.find(e => e.id === selectedId);
+            if (!x) return;
+            // Without a body the proxy sends the recorded bytes
+            let request = { service: x.service, method: x.method, url: x.url, headers: {}, body: undefined, replayOf: x.id };
+            for (const [k, v] of Object.entries(x.requestHeaders)) {
+                if (!k.startsWith('x-forwarded-')) request.headers[k] = Array.isArray(v) ? v.join(', ') : v;
+            }
+            if (edited) {
+                request.method = document.getElementById('edit-method').value.trim().toUpperCase() || x.method;
+                request.url = document.getElementById('edit-url').value.trim() || x.url;
+                request.body = document.getElementById('edit-body').value;
+                request.headers = {};
+                for (const line of document.getElementById('edit-headers').value.split('\\n')) {
+                    const colon = line.indexOf(':');
+                    if (colon > 0) request.headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+                }
+            }
+            vscode.postMessage({ command: 'replay', request });
+        }
+
+        vscode.postMessage({ command: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+}